@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AppsHandler } from '../../../../src/handlers/apps-handler';
+import { ApiKeyAuth } from '../../../../src/services/api-key-auth';
+import { RateLimiter } from '../../../../src/services/rate-limiter';
+import { getEnv } from '../../../../src/utils/env';
+
+// Create environment configuration
+const env = getEnv();
+
+export async function GET(request: NextRequest) {
+  const appsHandler = new AppsHandler(env);
+  return new RateLimiter(env).handle(request, () =>
+    new ApiKeyAuth(env).handle(request, () => appsHandler.handleAppSearch(request))
+  );
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+      'Access-Control-Max-Age': '86400',
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CompareHandler } from '../../../src/handlers/compare-handler';
+import { ApiKeyAuth } from '../../../src/services/api-key-auth';
+import { RateLimiter } from '../../../src/services/rate-limiter';
+import { RequestCost } from '../../../src/utils/request-cost';
+import { getEnv } from '../../../src/utils/env';
+
+// Create environment configuration
+const env = getEnv();
+
+export async function GET(request: NextRequest) {
+  const compareHandler = new CompareHandler(env);
+  const cost = await RequestCost.apps(request);
+  return new RateLimiter(env).handle(request, () =>
+    new ApiKeyAuth(env).handle(request, () => compareHandler.handleCompare(request), cost),
+    cost
+  );
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+      'Access-Control-Max-Age': '86400',
+    }
+  });
+}
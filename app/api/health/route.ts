@@ -1,10 +1,15 @@
 import { NextResponse } from 'next/server';
+import { CircuitBreaker } from '../../../src/utils/circuit-breaker';
 
 export async function GET() {
+  const upstreams = CircuitBreaker.getStatuses();
+  const degraded = upstreams.some(upstream => upstream.state !== 'closed');
+
   return NextResponse.json({ 
-    status: 'healthy', 
+    status: degraded ? 'degraded' : 'healthy', 
     timestamp: new Date().toISOString(),
-    service: 'reviews-ratings-api'
+    service: 'reviews-ratings-api',
+    upstreams
   });
 }
 
@@ -1,24 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Env } from '../../../src/types';
 import { ReviewsHandler } from '../../../src/handlers/reviews-handler';
-import { Logger } from '../../../src/utils/logger';
+import { ApiKeyAuth } from '../../../src/services/api-key-auth';
+import { RateLimiter } from '../../../src/services/rate-limiter';
+import { RequestCost } from '../../../src/utils/request-cost';
+import { getEnv } from '../../../src/utils/env';
 
 // Create environment configuration
-const env: Env = {
-  ENVIRONMENT: process.env.ENVIRONMENT || 'development',
-  MAX_REVIEWS_PER_APP: process.env.MAX_REVIEWS_PER_APP || '200',
-  REQUEST_TIMEOUT_MS: process.env.REQUEST_TIMEOUT_MS || '10000',
-  RATE_LIMIT_REQUESTS_PER_MINUTE: process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || '60'
-};
+const env = getEnv();
 
 export async function GET(request: NextRequest) {
   const reviewsHandler = new ReviewsHandler(env);
-  return reviewsHandler.handleSingleAppReviews(request);
+  const cost = await RequestCost.countries(request);
+  return new RateLimiter(env).handle(request, () =>
+    new ApiKeyAuth(env).handle(request, () => reviewsHandler.handleSingleAppReviews(request), cost),
+    cost
+  );
 }
 
 export async function POST(request: NextRequest) {
   const reviewsHandler = new ReviewsHandler(env);
-  return reviewsHandler.handleSingleAppReviewsPost(request);
+  const cost = await RequestCost.countries(request);
+  return new RateLimiter(env).handle(request, () =>
+    new ApiKeyAuth(env).handle(request, () => reviewsHandler.handleSingleAppReviewsPost(request), cost),
+    cost
+  );
 }
 
 export async function OPTIONS(request: NextRequest) {
@@ -27,7 +32,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, If-None-Match, X-API-Key',
       'Access-Control-Max-Age': '86400',
     }
   });
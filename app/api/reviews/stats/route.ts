@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReviewsHandler } from '../../../../src/handlers/reviews-handler';
+import { ApiKeyAuth } from '../../../../src/services/api-key-auth';
+import { RateLimiter } from '../../../../src/services/rate-limiter';
+import { RequestCost } from '../../../../src/utils/request-cost';
+import { getEnv } from '../../../../src/utils/env';
+
+// Create environment configuration
+const env = getEnv();
+
+export async function GET(request: NextRequest) {
+  const reviewsHandler = new ReviewsHandler(env);
+  const cost = await RequestCost.countries(request);
+  return new RateLimiter(env).handle(request, () =>
+    new ApiKeyAuth(env).handle(request, () => reviewsHandler.handleReviewStats(request), cost),
+    cost
+  );
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, If-None-Match, X-API-Key',
+      'Access-Control-Max-Age': '86400',
+    }
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UsageHandler } from '../../../src/handlers/usage-handler';
+import { RateLimiter } from '../../../src/services/rate-limiter';
+import { getEnv } from '../../../src/utils/env';
+
+// Create environment configuration
+const env = getEnv();
+
+export async function GET(request: NextRequest) {
+  const usageHandler = new UsageHandler(env);
+  return new RateLimiter(env).handle(request, () => usageHandler.handleUsage(request));
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+      'Access-Control-Max-Age': '86400',
+    }
+  });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhooksHandler } from '../../../../src/handlers/webhooks-handler';
+import { ApiKeyAuth } from '../../../../src/services/api-key-auth';
+import { RateLimiter } from '../../../../src/services/rate-limiter';
+import { getEnv } from '../../../../src/utils/env';
+
+// Create environment configuration
+const env = getEnv();
+
+export async function POST(request: NextRequest) {
+  const webhooksHandler = new WebhooksHandler(env);
+  return new RateLimiter(env).handle(request, () =>
+    new ApiKeyAuth(env).handle(request, key => webhooksHandler.handlePoll(request, key?.id))
+  );
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+      'Access-Control-Max-Age': '86400',
+    }
+  });
+}
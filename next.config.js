@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // sql.js loads its WebAssembly binary from node_modules at runtime
+    serverComponentsExternalPackages: ['sql.js'],
+  },
   async headers() {
     return [
       {
@@ -16,7 +20,7 @@ const nextConfig = {
           },
           {
             key: 'Access-Control-Allow-Headers',
-            value: 'Content-Type',
+            value: 'Content-Type, X-API-Key',
           },
         ],
       },
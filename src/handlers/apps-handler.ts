@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  Env,
+  AppHistoryRequest,
+  AppHistoryResponse,
+  AppMetadata,
+  AppSearchEntity,
+  AppSearchRequest,
+  AppSearchResponse,
+  Platform,
+  ReviewSourceOption
+} from '../types';
+import { ReviewSourceService } from '../services/review-source-service';
+import { MetadataHistoryService } from '../services/metadata-history-service';
+import { Validators } from '../utils/validators';
+import { ErrorHandler } from '../utils/error-handler';
+import { Logger } from '../utils/logger';
+
+export class AppsHandler {
+  private static readonly DEFAULT_SEARCH_ENTITY: AppSearchEntity = 'software';
+
+  private metadataHistory: MetadataHistoryService;
+  private reviewSourceService: ReviewSourceService;
+
+  constructor(private env: Env) {
+    this.metadataHistory = new MetadataHistoryService(env);
+    this.reviewSourceService = new ReviewSourceService(env, undefined, this.metadataHistory);
+  }
+
+  /**
+   * Handle App Store search request
+   */
+  async handleAppSearch(request: NextRequest): Promise<NextResponse> {
+    try {
+      const url = new URL(request.url);
+      const limit = url.searchParams.get('limit');
+      const requestData: AppSearchRequest = {
+        term: url.searchParams.get('term') ?? '',
+        country: url.searchParams.get('country') ?? undefined,
+        lang: url.searchParams.get('lang') ?? undefined,
+        limit: limit === null ? undefined : Number(limit),
+        entity: (url.searchParams.get('entity') ?? undefined) as AppSearchEntity,
+        refresh: url.searchParams.get('refresh') === 'true'
+      };
+      return await this.processAppSearchRequest(requestData);
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleError(error, 'APPS_HANDLER');
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
+
+  /**
+   * Handle app rating and metadata history request
+   */
+  async handleAppHistory(request: NextRequest, appId: string): Promise<NextResponse> {
+    try {
+      const url = new URL(request.url);
+      const requestData: AppHistoryRequest = {
+        app_id: appId,
+        platform: (url.searchParams.get('platform') ?? undefined) as Platform,
+        country: url.searchParams.get('country') ?? undefined,
+        lang: url.searchParams.get('lang') ?? undefined,
+        since: url.searchParams.get('since') ?? undefined,
+        until: url.searchParams.get('until') ?? undefined,
+        source: (url.searchParams.get('source') ?? undefined) as ReviewSourceOption,
+        refresh: url.searchParams.get('refresh') === 'true',
+        include_snapshots: url.searchParams.get('include_snapshots') === 'true'
+      };
+      return await this.processAppHistoryRequest(requestData);
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleError(error, 'APPS_HANDLER', appId);
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
+
+  private async processAppSearchRequest(requestData: AppSearchRequest): Promise<NextResponse> {
+    const validation = Validators.validateAppSearchRequest(requestData);
+    if (!validation.isValid) {
+      const errorResponse = ErrorHandler.createErrorResponse(
+        'VALIDATION_ERROR',
+        'Validation Error',
+        validation.errors.join(', ')
+      );
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const search: AppSearchRequest = {
+      ...requestData,
+      term: requestData.term.trim(),
+      country: requestData.country?.toLowerCase() ?? 'us',
+      lang: requestData.lang !== undefined ? Validators.sanitizeLanguage(requestData.lang) : undefined,
+      entity: requestData.entity ?? AppsHandler.DEFAULT_SEARCH_ENTITY
+    };
+
+    Logger.info('Processing app search request', 'APPS_HANDLER', {
+      term: search.term,
+      country: search.country,
+      entity: search.entity
+    });
+
+    const results = await this.reviewSourceService.searchApps(search);
+    const response: AppSearchResponse = {
+      term: search.term,
+      country: search.country!,
+      entity: search.entity!,
+      results,
+      total_results: results.length,
+      generated_at: new Date().toISOString()
+    };
+
+    return NextResponse.json(response);
+  }
+
+  /**
+   * Fetch the current metadata (recording a snapshot when it comes from upstream
+   * rather than the cache), then build the time series from the stored snapshots.
+   * A failed fetch still serves the history recorded so far, if there is any.
+   */
+  private async processAppHistoryRequest(requestData: AppHistoryRequest): Promise<NextResponse> {
+    const validation = Validators.validateAppHistoryRequest(requestData);
+    if (!validation.isValid) {
+      const errorResponse = ErrorHandler.createErrorResponse(
+        'VALIDATION_ERROR',
+        'Validation Error',
+        validation.errors.join(', '),
+        requestData.app_id
+      );
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const appId = Validators.sanitizeAppId(requestData.app_id);
+    const country = requestData.country?.toLowerCase() ?? 'us';
+
+    Logger.info('Processing app history request', 'APPS_HANDLER', {
+      app_id: appId,
+      country,
+      since: requestData.since,
+      until: requestData.until
+    });
+
+    let currentMetadata: AppMetadata | undefined;
+    let fetchError: unknown;
+    try {
+      const { metadata } = await this.reviewSourceService.getAppMetadata(appId, country, {
+        source: requestData.source,
+        refresh: requestData.refresh,
+        lang: requestData.lang !== undefined ? Validators.sanitizeLanguage(requestData.lang) : undefined
+      });
+      currentMetadata = metadata;
+    } catch (error) {
+      fetchError = error;
+      Logger.warn('Failed to fetch current app metadata, serving stored history', 'APPS_HANDLER', {
+        app_id: appId,
+        error: (error as Error)?.message
+      });
+    }
+
+    let snapshots = await this.metadataHistory.getSnapshots(appId, country, requestData.since, requestData.until);
+    if (requestData.source && requestData.source !== 'auto') {
+      // Providers report ratings differently, so keep a single-source series when asked
+      snapshots = snapshots.filter(snapshot => snapshot.source === requestData.source);
+    }
+
+    if (!currentMetadata && snapshots.length === 0) {
+      throw fetchError;
+    }
+
+    const response: AppHistoryResponse = {
+      app_id: appId,
+      country,
+      name: currentMetadata?.name ?? snapshots[snapshots.length - 1]?.metadata.name,
+      rating: MetadataHistoryService.toSeries(snapshots, 'rating'),
+      rating_count: MetadataHistoryService.toSeries(snapshots, 'rating_count'),
+      releases: MetadataHistoryService.toReleases(snapshots),
+      total_snapshots: snapshots.length,
+      snapshots: requestData.include_snapshots ? snapshots : undefined,
+      generated_at: new Date().toISOString()
+    };
+
+    return NextResponse.json(response);
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ComparedApp, CompareRequest, CompareResponse, Env, ReviewSourceOption } from '../types';
+import { ReviewSourceService } from '../services/review-source-service';
+import { Validators } from '../utils/validators';
+import { ErrorHandler } from '../utils/error-handler';
+import { ValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+import { Concurrency } from '../utils/concurrency';
+import { AppComparison } from '../utils/app-comparison';
+
+export class CompareHandler {
+  private static readonly FETCH_CONCURRENCY = 4;
+
+  private reviewSourceService: ReviewSourceService;
+
+  constructor(private env: Env) {
+    this.reviewSourceService = new ReviewSourceService(env);
+  }
+
+  /**
+   * Handle competitor comparison request
+   */
+  async handleCompare(request: NextRequest): Promise<NextResponse> {
+    try {
+      const url = new URL(request.url);
+      const requestData: CompareRequest = {
+        app_id: url.searchParams.get('app_id') || '',
+        bundle_id: url.searchParams.get('bundle_id') ?? undefined,
+        competitors: url.searchParams.get('competitors') || '',
+        country: url.searchParams.get('country') ?? undefined,
+        lang: url.searchParams.get('lang') ?? undefined,
+        source: (url.searchParams.get('source') ?? undefined) as ReviewSourceOption,
+        refresh: url.searchParams.get('refresh') === 'true'
+      };
+      return await this.processCompareRequest(requestData);
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleError(error, 'COMPARE_HANDLER');
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
+
+  /**
+   * Fetch the primary app and its competitors with bounded concurrency and
+   * compare them. A failing primary app fails the request; a failing
+   * competitor is reported in its entry.
+   */
+  private async processCompareRequest(requestData: CompareRequest): Promise<NextResponse> {
+    const validation = Validators.validateCompareRequest(requestData);
+    if (!validation.isValid) {
+      const errorResponse = ErrorHandler.createErrorResponse(
+        'VALIDATION_ERROR',
+        'Validation Error',
+        validation.errors.join(', '),
+        requestData.app_id || requestData.bundle_id
+      );
+      return NextResponse.json(errorResponse, { status: 400 });
+    }
+
+    const country = requestData.country?.toLowerCase() ?? 'us';
+    const appId = await this.resolveAppId(requestData, country);
+    const competitorIds = Array.from(new Set(Validators.splitList(requestData.competitors)));
+    if (competitorIds.includes(appId)) {
+      throw new ValidationError('competitors must not include app_id');
+    }
+
+    Logger.info('Processing comparison request', 'COMPARE_HANDLER', { app_id: appId, competitors: competitorIds, country });
+
+    const [primary, ...competitors] = await Concurrency.map(
+      [appId, ...competitorIds],
+      CompareHandler.FETCH_CONCURRENCY,
+      id => this.compareApp(id, country, requestData, id === appId)
+    );
+
+    const response: CompareResponse = {
+      app_id: appId,
+      country,
+      primary,
+      competitors: competitors.map(competitor => AppComparison.withDeltas(primary, competitor)),
+      generated_at: new Date().toISOString()
+    };
+
+    return NextResponse.json(response);
+  }
+
+  /**
+   * The primary app's ID, looking up the numeric App Store ID in the
+   * compared storefront when the app is named by bundle ID
+   */
+  private async resolveAppId(requestData: CompareRequest, country: string): Promise<string> {
+    if (requestData.bundle_id === undefined) {
+      return Validators.sanitizeAppId(requestData.app_id);
+    }
+
+    return this.reviewSourceService.resolveBundleId(requestData.bundle_id.trim(), country, { refresh: requestData.refresh });
+  }
+
+  /**
+   * Fetch one app's metadata and reviews and summarize them. Errors of the
+   * primary app are thrown; a competitor's are captured in its entry.
+   */
+  private async compareApp(
+    appId: string,
+    country: string,
+    requestData: CompareRequest,
+    isPrimary: boolean
+  ): Promise<ComparedApp> {
+    if (!isPrimary) {
+      const validation = Validators.validateReviewsRequest({ app_id: appId, source: requestData.source });
+      if (!validation.isValid) {
+        return {
+          app_id: appId,
+          success: false,
+          error: ErrorHandler.createErrorResponse('VALIDATION_ERROR', 'Validation Error', validation.errors.join(', '), appId)
+        };
+      }
+    }
+
+    try {
+      const lang = requestData.lang !== undefined ? Validators.sanitizeLanguage(requestData.lang) : undefined;
+      const { metadata, reviews, sources, source } = await this.reviewSourceService.getAppWithReviews(appId, country, {
+        source: requestData.source,
+        refresh: requestData.refresh,
+        lang
+      });
+
+      return {
+        ...AppComparison.summarize(metadata, reviews, lang),
+        source,
+        partial: ReviewSourceService.isPartial(sources)
+      };
+    } catch (error) {
+      if (isPrimary) {
+        throw error;
+      }
+      return {
+        app_id: appId,
+        success: false,
+        error: ErrorHandler.handleError(error, 'COMPARE_HANDLER', appId)
+      };
+    }
+  }
+}
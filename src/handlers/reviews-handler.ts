@@ -1,15 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Env, ReviewsRequest, ReviewsResponse, ErrorResponse } from '../types';
-import { AppStoreService } from '../services/app-store-service';
+import {
+  Env,
+  ReviewsRequest,
+  ReviewsResponse,
+  MultipleReviewsRequest,
+  MultipleReviewsResponse,
+  AppReviewsResult,
+  Platform,
+  ReviewSourceOption,
+  ReviewSort,
+  ReviewStatsResponse,
+  ReviewExportFormat,
+  ReviewSyncResponse
+} from '../types';
+import { ReviewSourceService } from '../services/review-source-service';
+import { ReviewSyncService } from '../services/review-sync-service';
 import { Validators } from '../utils/validators';
 import { ErrorHandler } from '../utils/error-handler';
 import { Logger } from '../utils/logger';
+import { Concurrency } from '../utils/concurrency';
+import { Pagination } from '../utils/pagination';
+import { HttpCache } from '../utils/http-cache';
+import { ReviewFilters } from '../utils/review-filters';
+import { ReviewStats } from '../utils/review-stats';
+import { ReviewAnalyzer } from '../utils/review-analyzer';
+import { ReviewExport } from '../utils/review-export';
+import { MetadataFields } from '../utils/metadata-fields';
+import { RequestBody } from '../utils/request-body';
 
 export class ReviewsHandler {
-  private appStoreService: AppStoreService;
+  private static readonly BATCH_CONCURRENCY = 4;
+
+  private reviewSourceService: ReviewSourceService;
+  private reviewSyncService?: ReviewSyncService;
 
   constructor(private env: Env) {
-    this.appStoreService = new AppStoreService(env);
+    this.reviewSourceService = new ReviewSourceService(env);
   }
 
   /**
@@ -17,21 +43,24 @@ export class ReviewsHandler {
    */
   async handleSingleAppReviews(request: NextRequest): Promise<NextResponse> {
     try {
-      const url = new URL(request.url);
-      const appId = url.searchParams.get('app_id');
-      const includeMetadata = url.searchParams.get('include_metadata') !== 'false';
-      const country = url.searchParams.get('country') || 'us';
-
-      const requestData: ReviewsRequest = {
-        app_id: appId || '',
-        include_metadata: includeMetadata,
-        country
-      };
+      const requestData = this.parseReviewsQuery(request);
+      return await this.processSingleAppRequest(requestData, request);
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleError(error, 'REVIEWS_HANDLER');
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
 
-      return await this.processSingleAppRequest(requestData);
+  /**
+   * Handle review statistics request
+   */
+  async handleReviewStats(request: NextRequest): Promise<NextResponse> {
+    try {
+      const requestData = this.parseReviewsQuery(request);
+      return await this.processReviewStatsRequest(requestData, request);
     } catch (error) {
       const errorResponse = ErrorHandler.handleError(error, 'REVIEWS_HANDLER');
-      return NextResponse.json(errorResponse, { status: 500 });
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
     }
   }
 
@@ -40,76 +69,481 @@ export class ReviewsHandler {
    */
   async handleSingleAppReviewsPost(request: NextRequest): Promise<NextResponse> {
     try {
-      const requestData = await request.json() as ReviewsRequest;
-      return await this.processSingleAppRequest(requestData);
+      const requestData = await RequestBody.json<ReviewsRequest>(request);
+      return await this.processSingleAppRequest(requestData, request);
     } catch (error) {
       const errorResponse = ErrorHandler.handleError(error, 'REVIEWS_HANDLER');
-      return NextResponse.json(errorResponse, { status: 500 });
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
     }
   }
 
+  /**
+   * Handle review store sync request via POST
+   */
+  async handleReviewSync(request: NextRequest): Promise<NextResponse> {
+    try {
+      const requestData = await RequestBody.json<ReviewsRequest>(request);
+      return await this.processReviewSyncRequest(requestData);
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleError(error, 'REVIEWS_HANDLER');
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
 
+  /**
+   * Handle multiple apps reviews request via POST
+   */
+  async handleMultipleAppReviews(request: NextRequest): Promise<NextResponse> {
+    try {
+      const requestData = await RequestBody.json<MultipleReviewsRequest>(request);
+      return await this.processMultipleAppsRequest(requestData);
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleError(error, 'REVIEWS_HANDLER');
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
 
   /**
    * Process single app request
    */
-  private async processSingleAppRequest(requestData: ReviewsRequest): Promise<NextResponse> {
+  private async processSingleAppRequest(requestData: ReviewsRequest, request: NextRequest): Promise<NextResponse> {
     // Validate request
     const validation = Validators.validateReviewsRequest(requestData);
     if (!validation.isValid) {
-      const errorResponse: ErrorResponse = {
-        error: 'Validation Error',
-        message: validation.errors.join(', '),
-        app_id: requestData.app_id,
-        timestamp: new Date().toISOString()
-      };
-      return NextResponse.json(errorResponse, { status: 400 });
+      return this.createValidationErrorResponse(validation.errors, requestData?.app_id);
     }
 
     // Sanitize inputs
-    const appId = Validators.sanitizeAppId(requestData.app_id);
+    const appId = await this.resolveAppId(requestData);
 
     try {
       Logger.info('Processing single app reviews request', 'REVIEWS_HANDLER', { 
         app_id: appId, 
-        include_metadata: requestData.include_metadata 
+        include_metadata: requestData.include_metadata,
+        country: requestData.country
       });
 
-      let response: ReviewsResponse;
+      const response = await this.fetchReviewsResponse(appId, requestData);
+      response.version_breakdown = ReviewStats.versionBreakdown(response.reviews);
 
-      if (requestData.include_metadata) {
-        // Get both metadata and reviews
-        const { metadata, reviews } = await this.appStoreService.getAppWithReviews(appId, requestData.country);
-        response = {
-          app_id: appId,
-          app_metadata: metadata,
-          reviews,
-          total_reviews: reviews.length,
-          generated_at: new Date().toISOString()
-        };
-      } else {
-        // Get only reviews
-        const reviews = await this.appStoreService.getReviews(appId, requestData.country);
-        response = {
-          app_id: appId,
-          reviews,
-          total_reviews: reviews.length,
-          generated_at: new Date().toISOString()
-        };
+      if (requestData.include_stats) {
+        response.stats = ReviewStats.compute(response.reviews);
+      }
+
+      if (requestData.analyze) {
+        const { reviews, summary } = ReviewAnalyzer.analyze(response.reviews, requestData.lang);
+        response.reviews = reviews;
+        response.analysis = summary;
       }
 
+      if (Pagination.isRequested(requestData)) {
+        const { items, pagination } = Pagination.paginate(response.reviews, requestData);
+        response.reviews = items;
+        response.pagination = pagination;
+      }
+
+      const format = ReviewExport.resolveFormat(requestData.format, request.headers.get('accept'));
+
       Logger.info('Successfully processed single app reviews request', 'REVIEWS_HANDLER', { 
         app_id: appId, 
-        reviews_count: response.reviews.length 
+        reviews_count: response.reviews.length,
+        source: response.source,
+        format
       });
 
-      return NextResponse.json(response);
+      if (format !== 'json') {
+        return this.createExportResponse(response, requestData, format);
+      }
+
+      return this.createCachedJsonResponse(request, response);
     } catch (error) {
       Logger.error('Failed to process single app reviews request', 'REVIEWS_HANDLER', { app_id: appId }, error as Error);
       const errorResponse = ErrorHandler.handleError(error, 'REVIEWS_HANDLER', appId);
-      return NextResponse.json(errorResponse, { status: 500 });
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
+
+  /**
+   * Process review statistics request. Statistics are computed over all fetched
+   * reviews that match the request's filters.
+   */
+  private async processReviewStatsRequest(requestData: ReviewsRequest, request: NextRequest): Promise<NextResponse> {
+    const validation = Validators.validateReviewsRequest(requestData);
+    if (!validation.isValid) {
+      return this.createValidationErrorResponse(validation.errors, requestData?.app_id);
+    }
+
+    const appId = await this.resolveAppId(requestData);
+
+    try {
+      Logger.info('Processing review statistics request', 'REVIEWS_HANDLER', { app_id: appId, country: requestData.country });
+
+      const reviewsResponse = await this.fetchReviewsResponse(appId, requestData);
+      const response: ReviewStatsResponse = {
+        app_id: appId,
+        app_metadata: reviewsResponse.app_metadata,
+        stats: ReviewStats.compute(reviewsResponse.reviews),
+        version_breakdown: ReviewStats.versionBreakdown(reviewsResponse.reviews),
+        total_reviews: reviewsResponse.total_reviews,
+        total_reviews_before_filter: reviewsResponse.total_reviews_before_filter,
+        countries: reviewsResponse.countries,
+        source: reviewsResponse.source,
+        sources: reviewsResponse.sources,
+        partial: reviewsResponse.partial,
+        generated_at: reviewsResponse.generated_at
+      };
+
+      return this.createCachedJsonResponse(request, response);
+    } catch (error) {
+      Logger.error('Failed to process review statistics request', 'REVIEWS_HANDLER', { app_id: appId }, error as Error);
+      const errorResponse = ErrorHandler.handleError(error, 'REVIEWS_HANDLER', appId);
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
+
+  /**
+   * Fetch the reviews for a request from one or more storefronts, then apply
+   * its filters and sort order. Pagination is left to the caller. With `strict`
+   * a failed upstream feed rejects instead of serving partial results.
+   */
+  private async fetchReviewsResponse(appId: string, requestData: ReviewsRequest): Promise<ReviewsResponse> {
+    const countries = Validators.parseCountries(requestData.country);
+    const fetchOptions = {
+      source: requestData.source,
+      refresh: requestData.refresh,
+      lang: requestData.lang !== undefined ? Validators.sanitizeLanguage(requestData.lang) : undefined
+    };
+    let response: ReviewsResponse;
+
+    // Metadata is looked up even when it is not returned, so that an app that is
+    // not sold in the storefront is a 404 rather than an empty list of reviews
+    if (requestData.history) {
+      // Serve the accumulated history from the review store after an incremental sync
+      const [metadataResult, { reviews, sync, source }] = await Promise.all([
+        this.reviewSourceService.getAppMetadata(appId, countries[0], fetchOptions),
+        this.getReviewSyncService().getHistory(appId, countries, fetchOptions)
+      ]);
+      response = {
+        app_id: appId,
+        app_metadata: requestData.include_metadata ? metadataResult.metadata : undefined,
+        reviews,
+        total_reviews: reviews.length,
+        countries: countries.length > 1 ? countries : undefined,
+        source,
+        sync,
+        generated_at: new Date().toISOString()
+      };
+    } else if (countries.length > 1) {
+      // Aggregate reviews across storefronts
+      const [metadataResult, { reviews, sources, country_breakdown, source }] = await Promise.all([
+        this.reviewSourceService.getAppMetadata(appId, countries[0], fetchOptions),
+        this.reviewSourceService.getMultiCountryReviews(appId, countries, fetchOptions)
+      ]);
+      response = {
+        app_id: appId,
+        app_metadata: requestData.include_metadata ? metadataResult.metadata : undefined,
+        reviews,
+        total_reviews: reviews.length,
+        countries,
+        country_breakdown,
+        source,
+        sources,
+        generated_at: new Date().toISOString()
+      };
+    } else {
+      // Get both metadata and reviews
+      const { metadata, reviews, sources, source } = await this.reviewSourceService.getAppWithReviews(
+        appId,
+        countries[0],
+        fetchOptions
+      );
+      response = {
+        app_id: appId,
+        app_metadata: requestData.include_metadata ? metadata : undefined,
+        reviews,
+        total_reviews: reviews.length,
+        source,
+        sources,
+        generated_at: new Date().toISOString()
+      };
+    }
+
+    // History is served from the review store, which reports failures in `sync` instead
+    if (response.sources) {
+      if (requestData.strict) {
+        ReviewSourceService.assertComplete(response.sources);
+      }
+      response.partial = ReviewSourceService.isPartial(response.sources);
+    }
+
+    if (ReviewFilters.hasFilters(requestData)) {
+      response.total_reviews_before_filter = response.reviews.length;
+      response.reviews = ReviewFilters.apply(response.reviews, requestData);
+      response.total_reviews = response.reviews.length;
+    }
+
+    if (requestData.sort !== undefined || requestData.order !== undefined) {
+      response.reviews = ReviewFilters.sort(response.reviews, requestData.sort, requestData.order);
+    }
+
+    if (response.app_metadata && requestData.fields !== undefined) {
+      response.app_metadata = MetadataFields.pick(response.app_metadata, Validators.splitList(requestData.fields));
+    }
+
+    return response;
+  }
+
+  /**
+   * Stream the reviews of a response as a CSV or NDJSON download
+   */
+  private createExportResponse(
+    response: ReviewsResponse,
+    requestData: ReviewsRequest,
+    format: Exclude<ReviewExportFormat, 'json'>
+  ): NextResponse {
+    const countries = response.countries ?? Validators.parseCountries(requestData.country);
+    const countryLabel = countries.length === 1
+      ? countries[0]
+      : Validators.isAllCountries(requestData.country) ? 'all' : 'multi';
+    const stream = format === 'csv'
+      ? ReviewExport.toCsvStream(response.reviews)
+      : ReviewExport.toNdjsonStream(response.reviews);
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': ReviewExport.CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${ReviewExport.filename(response.app_id, countryLabel, format)}"`,
+        'X-Total-Reviews': String(response.total_reviews),
+        'Vary': 'Accept'
+      }
+    });
+  }
+
+  /**
+   * Sync the review store for an app in one or more storefronts
+   */
+  private async processReviewSyncRequest(requestData: ReviewsRequest): Promise<NextResponse> {
+    const validation = Validators.validateReviewsRequest(requestData);
+    if (!validation.isValid) {
+      return this.createValidationErrorResponse(validation.errors, requestData?.app_id);
     }
+
+    const appId = await this.resolveAppId(requestData);
+    const countries = Validators.parseCountries(requestData.country);
+
+    Logger.info('Processing review sync request', 'REVIEWS_HANDLER', { app_id: appId, countries });
+
+    const results = await this.getReviewSyncService().syncCountries(appId, countries, { source: requestData.source });
+    const response: ReviewSyncResponse = {
+      app_id: appId,
+      results,
+      generated_at: new Date().toISOString()
+    };
+
+    return NextResponse.json(response);
   }
 
+  /**
+   * The request's app ID, looking up the numeric App Store ID when the app is
+   * named by bundle ID. The lookup uses the first requested storefront.
+   */
+  private async resolveAppId(requestData: ReviewsRequest): Promise<string> {
+    if (requestData.bundle_id === undefined) {
+      return Validators.sanitizeAppId(requestData.app_id);
+    }
 
+    const country = Validators.parseCountries(requestData.country)[0];
+    return this.reviewSourceService.resolveBundleId(requestData.bundle_id.trim(), country, { refresh: requestData.refresh });
+  }
+
+  private getReviewSyncService(): ReviewSyncService {
+    this.reviewSyncService = this.reviewSyncService ?? new ReviewSyncService(this.env, this.reviewSourceService);
+    return this.reviewSyncService;
+  }
+
+  private createValidationErrorResponse(errors: string[], appId?: string): NextResponse {
+    const errorResponse = ErrorHandler.createErrorResponse('VALIDATION_ERROR', 'Validation Error', errors.join(', '), appId);
+    return NextResponse.json(errorResponse, { status: 400 });
+  }
+
+  /**
+   * Build a JSON response with Cache-Control and ETag headers, answering
+   * 304 Not Modified when the client already has this representation. The
+   * format can be negotiated from the Accept header, so shared caches must
+   * key on it too.
+   */
+  private createCachedJsonResponse(request: NextRequest, body: ReviewsResponse | ReviewStatsResponse): NextResponse {
+    const etag = HttpCache.createETag(body);
+    const policy = this.reviewSourceService.getReviewsCachePolicy();
+    const headers = {
+      'Cache-Control': HttpCache.cacheControl(policy.ttlSeconds, policy.staleSeconds),
+      'ETag': etag,
+      'Vary': 'Accept'
+    };
+
+    if (HttpCache.isNotModified(request, etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return NextResponse.json(body, { headers });
+  }
+
+  /**
+   * Read the reviews request parameters from the query string
+   */
+  private parseReviewsQuery(request: NextRequest): ReviewsRequest {
+    const url = new URL(request.url);
+
+    return {
+      app_id: url.searchParams.get('app_id') || '',
+      bundle_id: url.searchParams.get('bundle_id') ?? undefined,
+      platform: (url.searchParams.get('platform') ?? undefined) as Platform,
+      include_metadata: url.searchParams.get('include_metadata') !== 'false',
+      country: url.searchParams.get('country') || 'us', // May be a comma-separated list or 'all'
+      page: this.getNumberParam(url, 'page'),
+      page_size: this.getNumberParam(url, 'page_size'),
+      cursor: url.searchParams.get('cursor') ?? undefined,
+      source: (url.searchParams.get('source') ?? undefined) as ReviewSourceOption,
+      refresh: url.searchParams.get('refresh') === 'true',
+      min_rating: this.getNumberParam(url, 'min_rating'),
+      max_rating: this.getNumberParam(url, 'max_rating'),
+      since: url.searchParams.get('since') ?? undefined,
+      until: url.searchParams.get('until') ?? undefined,
+      search: url.searchParams.get('search') ?? undefined,
+      review_types: url.searchParams.get('review_types') ?? undefined,
+      min_helpful_votes: this.getNumberParam(url, 'min_helpful_votes'),
+      sort: (url.searchParams.get('sort') ?? undefined) as ReviewSort,
+      order: (url.searchParams.get('order') ?? undefined) as ReviewsRequest['order'],
+      include_stats: url.searchParams.get('include_stats') === 'true',
+      format: (url.searchParams.get('format') ?? undefined) as ReviewExportFormat,
+      history: url.searchParams.get('history') === 'true',
+      fields: url.searchParams.get('fields') ?? undefined,
+      lang: url.searchParams.get('lang') ?? undefined,
+      strict: url.searchParams.get('strict') === 'true',
+      analyze: url.searchParams.get('analyze') === 'true'
+    };
+  }
+
+  /**
+   * Read an optional numeric query parameter. Non-numeric values come back as NaN
+   * so that validation can reject them.
+   */
+  private getNumberParam(url: URL, name: string): number | undefined {
+    const value = url.searchParams.get(name);
+    return value === null ? undefined : Number(value);
+  }
+
+  /**
+   * Process multiple apps request, fetching each app with bounded concurrency.
+   * Failures are reported per app rather than failing the whole batch.
+   */
+  private async processMultipleAppsRequest(requestData: MultipleReviewsRequest): Promise<NextResponse> {
+    const validation = Validators.validateMultipleReviewsRequest(requestData);
+    if (!validation.isValid) {
+      return this.createValidationErrorResponse(validation.errors);
+    }
+
+    const appIds = Array.from(new Set((requestData.app_ids ?? []).map(appId => Validators.sanitizeAppId(String(appId)))));
+    const bundleIds = Array.from(new Set((requestData.bundle_ids ?? []).map(bundleId => String(bundleId).trim())));
+
+    Logger.info('Processing multiple apps reviews request', 'REVIEWS_HANDLER', {
+      app_ids: appIds,
+      bundle_ids: bundleIds,
+      limit: requestData.limit,
+      include_metadata: requestData.include_metadata
+    });
+
+    const apps = [
+      ...appIds.map(appId => ({ app_id: appId })),
+      ...bundleIds.map(bundleId => ({ app_id: '', bundle_id: bundleId }))
+    ];
+    const results = await Concurrency.map(apps, ReviewsHandler.BATCH_CONCURRENCY, app =>
+      this.fetchAppReviewsResult(app, requestData)
+    );
+
+    const successfulApps = results.filter(result => result.success).length;
+    const response: MultipleReviewsResponse = {
+      results,
+      total_apps: results.length,
+      successful_apps: successfulApps,
+      failed_apps: results.length - successfulApps,
+      generated_at: new Date().toISOString()
+    };
+
+    Logger.info('Successfully processed multiple apps reviews request', 'REVIEWS_HANDLER', {
+      total_apps: response.total_apps,
+      failed_apps: response.failed_apps
+    });
+
+    return NextResponse.json(response);
+  }
+
+  /**
+   * Fetch reviews for one app of a batch request, given by app ID or bundle ID,
+   * capturing any error in the result
+   */
+  private async fetchAppReviewsResult(
+    app: { app_id: string; bundle_id?: string },
+    requestData: MultipleReviewsRequest
+  ): Promise<AppReviewsResult> {
+    const appRequest: ReviewsRequest = {
+      ...app,
+      platform: requestData.platform,
+      source: requestData.source,
+      country: requestData.country,
+      refresh: requestData.refresh
+    };
+    const validation = Validators.validateReviewsRequest(appRequest);
+    if (!validation.isValid) {
+      return {
+        ...app,
+        success: false,
+        error: ErrorHandler.createErrorResponse(
+          'VALIDATION_ERROR',
+          'Validation Error',
+          validation.errors.join(', '),
+          app.app_id || app.bundle_id
+        )
+      };
+    }
+
+    let appId = app.app_id;
+    try {
+      appId = await this.resolveAppId(appRequest);
+      const result: AppReviewsResult = { ...app, app_id: appId, success: true };
+
+      // Metadata is looked up even when it is not returned, so that an app that
+      // is not sold in the storefront fails with a 404 error
+      const { metadata, reviews, source } = await this.reviewSourceService.getAppWithReviews(
+        appId,
+        requestData.country?.toLowerCase(),
+        {
+          source: requestData.source,
+          refresh: requestData.refresh,
+          lang: requestData.lang !== undefined ? Validators.sanitizeLanguage(requestData.lang) : undefined
+        }
+      );
+      if (requestData.include_metadata) {
+        result.app_metadata = requestData.fields !== undefined
+          ? MetadataFields.pick(metadata, Validators.splitList(requestData.fields))
+          : metadata;
+      }
+      result.reviews = reviews;
+      result.source = source;
+
+      if (requestData.limit) {
+        result.reviews = result.reviews.slice(0, requestData.limit);
+      }
+      result.total_reviews = result.reviews.length;
+
+      return result;
+    } catch (error) {
+      return {
+        ...app,
+        app_id: appId,
+        success: false,
+        error: ErrorHandler.handleError(error, 'REVIEWS_HANDLER', appId || app.bundle_id)
+      };
+    }
+  }
 }
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Env } from '../types';
+import { ApiKeyAuth } from '../services/api-key-auth';
+import { ErrorHandler } from '../utils/error-handler';
+
+export class UsageHandler {
+  private apiKeyAuth: ApiKeyAuth;
+
+  constructor(private env: Env) {
+    this.apiKeyAuth = new ApiKeyAuth(env);
+  }
+
+  /**
+   * Today's usage and quota of the caller's API key. Reading usage does not
+   * count against the quota.
+   */
+  async handleUsage(request: NextRequest): Promise<NextResponse> {
+    try {
+      const { key, rejection } = await this.apiKeyAuth.authenticate(request);
+      if (rejection) {
+        return rejection;
+      }
+      if (!key) {
+        const errorResponse = ErrorHandler.createErrorResponse('NOT_FOUND', 'Not Found', 'API keys are not configured');
+        return NextResponse.json(errorResponse, { status: 404 });
+      }
+
+      return NextResponse.json(await this.apiKeyAuth.getUsage(key));
+    } catch (error) {
+      const errorResponse = ErrorHandler.handleError(error, 'USAGE_HANDLER');
+      return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+    }
+  }
+}
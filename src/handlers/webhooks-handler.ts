@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  Env,
+  WebhookDeliveriesResponse,
+  WebhookPollResponse,
+  WebhookSubscriptionRequest,
+  WebhookSubscriptionsResponse
+} from '../types';
+import { ReviewSourceService } from '../services/review-source-service';
+import { WebhookService } from '../services/webhook-service';
+import { Validators } from '../utils/validators';
+import { RequestBody } from '../utils/request-body';
+import { ErrorHandler } from '../utils/error-handler';
+import { Logger } from '../utils/logger';
+
+export class WebhooksHandler {
+  private static readonly DEFAULT_DELIVERIES_LIMIT = 50;
+
+  private webhookService: WebhookService;
+
+  constructor(private env: Env) {
+    this.webhookService = new WebhookService(env, new ReviewSourceService(env));
+  }
+
+  /**
+   * List the caller's webhook subscriptions. `ownerKeyId` is the ID of the
+   * caller's API key (unset when API keys are not configured); here and below
+   * subscriptions of other keys are treated as not found.
+   */
+  async handleList(ownerKeyId?: string): Promise<NextResponse> {
+    try {
+      const subscriptions = await this.webhookService.list(ownerKeyId);
+      const response: WebhookSubscriptionsResponse = {
+        subscriptions,
+        total_subscriptions: subscriptions.length,
+        generated_at: new Date().toISOString()
+      };
+      return NextResponse.json(response);
+    } catch (error) {
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Create a webhook subscription
+   */
+  async handleCreate(request: NextRequest, ownerKeyId?: string): Promise<NextResponse> {
+    try {
+      const requestData = await RequestBody.json<WebhookSubscriptionRequest>(request);
+      const validation = Validators.validateWebhookSubscriptionRequest(requestData);
+      if (!validation.isValid) {
+        return this.createValidationErrorResponse(validation.errors);
+      }
+
+      const subscription = await this.webhookService.create(requestData, ownerKeyId);
+      return NextResponse.json(subscription, { status: 201 });
+    } catch (error) {
+      return this.createErrorResponse(error);
+    }
+  }
+
+  async handleGet(id: string, ownerKeyId?: string): Promise<NextResponse> {
+    try {
+      const subscription = await this.webhookService.get(id, ownerKeyId);
+      return subscription ? NextResponse.json(subscription) : this.createNotFoundResponse(id);
+    } catch (error) {
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Update the fields present in the request body
+   */
+  async handleUpdate(request: NextRequest, id: string, ownerKeyId?: string): Promise<NextResponse> {
+    try {
+      const requestData = await RequestBody.json<WebhookSubscriptionRequest>(request);
+      const validation = Validators.validateWebhookSubscriptionRequest(requestData, true);
+      if (!validation.isValid) {
+        return this.createValidationErrorResponse(validation.errors);
+      }
+
+      const subscription = await this.webhookService.update(id, requestData, ownerKeyId);
+      return subscription ? NextResponse.json(subscription) : this.createNotFoundResponse(id);
+    } catch (error) {
+      return this.createErrorResponse(error);
+    }
+  }
+
+  async handleDelete(id: string, ownerKeyId?: string): Promise<NextResponse> {
+    try {
+      const deleted = await this.webhookService.delete(id, ownerKeyId);
+      return deleted ? new NextResponse(null, { status: 204 }) : this.createNotFoundResponse(id);
+    } catch (error) {
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Delivery log of a subscription, most recent first
+   */
+  async handleDeliveries(request: NextRequest, id: string, ownerKeyId?: string): Promise<NextResponse> {
+    try {
+      const limitParam = new URL(request.url).searchParams.get('limit');
+      const limit = limitParam === null ? WebhooksHandler.DEFAULT_DELIVERIES_LIMIT : Number(limitParam);
+      if (!Validators.isValidLimit(limit)) {
+        return this.createValidationErrorResponse(['limit must be an integer between 1 and 200']);
+      }
+
+      const deliveries = await this.webhookService.getDeliveries(id, limit, ownerKeyId);
+      if (!deliveries) {
+        return this.createNotFoundResponse(id);
+      }
+
+      const response: WebhookDeliveriesResponse = {
+        subscription_id: id,
+        deliveries,
+        total_deliveries: deliveries.length,
+        generated_at: new Date().toISOString()
+      };
+      return NextResponse.json(response);
+    } catch (error) {
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Poll every active subscription of the caller, or the one given as
+   * `subscription_id`, for new reviews. Meant to be called by a scheduler.
+   */
+  async handlePoll(request: NextRequest, ownerKeyId?: string): Promise<NextResponse> {
+    try {
+      const requestData = await RequestBody.json<{ subscription_id?: string }>(request, {});
+      if (!Validators.isPlainObject(requestData)) {
+        return this.createValidationErrorResponse(['request body must be a JSON object']);
+      }
+
+      if (requestData.subscription_id !== undefined) {
+        if (typeof requestData.subscription_id !== 'string') {
+          return this.createValidationErrorResponse(['subscription_id must be a string']);
+        }
+        if (!(await this.webhookService.get(requestData.subscription_id, ownerKeyId))) {
+          return this.createNotFoundResponse(requestData.subscription_id);
+        }
+      }
+
+      Logger.info('Processing webhook poll request', 'WEBHOOKS_HANDLER', { subscription_id: requestData.subscription_id });
+
+      const { results, total_subscriptions } = await this.webhookService.poll(requestData.subscription_id, ownerKeyId);
+      const response: WebhookPollResponse = {
+        results,
+        total_subscriptions,
+        generated_at: new Date().toISOString()
+      };
+      return NextResponse.json(response);
+    } catch (error) {
+      return this.createErrorResponse(error);
+    }
+  }
+
+  private createValidationErrorResponse(errors: string[]): NextResponse {
+    const errorResponse = ErrorHandler.createErrorResponse('VALIDATION_ERROR', 'Validation Error', errors.join(', '));
+    return NextResponse.json(errorResponse, { status: 400 });
+  }
+
+  private createNotFoundResponse(id: string): NextResponse {
+    const errorResponse = ErrorHandler.createErrorResponse('NOT_FOUND', 'Not Found', `Webhook subscription ${id} not found`);
+    return NextResponse.json(errorResponse, { status: 404 });
+  }
+
+  private createErrorResponse(error: unknown): NextResponse {
+    const errorResponse = ErrorHandler.handleError(error, 'WEBHOOKS_HANDLER');
+    return NextResponse.json(errorResponse, { status: ErrorHandler.getStatusCode(error) });
+  }
+}
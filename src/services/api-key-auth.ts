@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKey, ApiUsageResponse, Env, ErrorCode } from '../types';
+import { ApiKeyStore, getDefaultApiKeyStore } from '../utils/api-key-store';
+import { RateLimitStore, defaultRateLimitStore } from '../utils/rate-limit-store';
+import { ErrorHandler } from '../utils/error-handler';
+import { Logger } from '../utils/logger';
+
+/**
+ * `rejection` is set when the request is refused. Otherwise `key` is the
+ * caller's key, or unset when API keys are not configured.
+ */
+export interface ApiKeyAuthResult {
+  key?: ApiKey;
+  rejection?: NextResponse;
+}
+
+/**
+ * API key authentication in front of the routes. Keys are sent in the
+ * X-API-Key header or the api_key query parameter. Each key may be limited to
+ * a number of requests per UTC day and to a set of browser origins. When no
+ * keys are configured every request is let through.
+ */
+export class ApiKeyAuth {
+  private static readonly DAY_MS = 86_400_000;
+  // Counters outlive their day so that usage can still be read around midnight
+  private static readonly USAGE_TTL_SECONDS = 2 * 86_400;
+
+  private keyStore: ApiKeyStore;
+
+  constructor(env: Env, keyStore?: ApiKeyStore, private usageStore: RateLimitStore = defaultRateLimitStore) {
+    this.keyStore = keyStore ?? getDefaultApiKeyStore(env);
+  }
+
+  /**
+   * Authenticate the request and count it against the key's daily quota,
+   * adding X-Quota-* headers to the response. A request that fans out upstream
+   * counts `cost` times. `next` is passed the caller's key, or nothing when API
+   * keys are not configured.
+   */
+  async handle(
+    request: NextRequest,
+    next: (key?: ApiKey) => Promise<NextResponse>,
+    cost: number = 1
+  ): Promise<NextResponse> {
+    const auth = await this.authenticate(request);
+    if (auth.rejection) {
+      return auth.rejection;
+    }
+    if (!auth.key) {
+      return next();
+    }
+
+    const key = auth.key;
+    const now = Date.now();
+    const usageKey = ApiKeyAuth.getUsageKey(key, now);
+    const resetAt = ApiKeyAuth.getResetTime(now);
+
+    if (key.daily_quota && (await this.usageStore.get(usageKey)) + cost > key.daily_quota) {
+      Logger.warn('Daily quota exceeded', 'API_KEY_AUTH', { key_id: key.id, quota: key.daily_quota });
+      const response = this.createErrorResponse(
+        429,
+        'QUOTA_EXCEEDED',
+        'Quota Exceeded',
+        `Daily quota of ${key.daily_quota} requests exceeded`
+      );
+      response.headers.set('Retry-After', String(Math.ceil((resetAt - now) / 1000)));
+      return this.applyHeaders(response, request, key, key.daily_quota, resetAt);
+    }
+
+    const used = await this.usageStore.increment(usageKey, ApiKeyAuth.USAGE_TTL_SECONDS, cost);
+    return this.applyHeaders(await next(key), request, key, used, resetAt);
+  }
+
+  /**
+   * Resolve the request's API key without counting the request. Fails with 401
+   * for a missing or unknown key and 403 for an origin the key does not allow.
+   */
+  async authenticate(request: NextRequest): Promise<ApiKeyAuthResult> {
+    if (!this.keyStore.isEnabled()) {
+      return {};
+    }
+
+    const apiKey = ApiKeyAuth.getApiKey(request);
+    if (!apiKey) {
+      return {
+        rejection: this.createErrorResponse(
+          401,
+          'UNAUTHORIZED',
+          'Unauthorized',
+          'An API key is required (X-API-Key header or api_key query parameter)'
+        )
+      };
+    }
+
+    const key = await this.keyStore.find(apiKey);
+    if (!key) {
+      Logger.warn('Rejected unknown API key', 'API_KEY_AUTH');
+      return { rejection: this.createErrorResponse(401, 'UNAUTHORIZED', 'Unauthorized', 'Invalid API key') };
+    }
+
+    // Only browsers send Origin, so the restriction applies to browser requests
+    const origin = request.headers.get('origin');
+    if (origin && key.allowed_origins && !key.allowed_origins.includes(origin)) {
+      Logger.warn('Rejected API key for origin', 'API_KEY_AUTH', { key_id: key.id, origin });
+      return {
+        rejection: this.createErrorResponse(403, 'FORBIDDEN', 'Forbidden', `Origin ${origin} is not allowed for this API key`)
+      };
+    }
+
+    return { key };
+  }
+
+  /**
+   * Today's usage of a key
+   */
+  async getUsage(key: ApiKey, now: number = Date.now()): Promise<ApiUsageResponse> {
+    const used = await this.usageStore.get(ApiKeyAuth.getUsageKey(key, now));
+
+    return {
+      key_id: key.id,
+      key_name: key.name,
+      daily_quota: key.daily_quota || null,
+      used_today: used,
+      remaining_today: key.daily_quota ? Math.max(0, key.daily_quota - used) : null,
+      resets_at: new Date(ApiKeyAuth.getResetTime(now)).toISOString(),
+      allowed_origins: key.allowed_origins,
+      generated_at: new Date(now).toISOString()
+    };
+  }
+
+  static getApiKey(request: NextRequest): string | null {
+    return request.headers.get('x-api-key') || new URL(request.url).searchParams.get('api_key');
+  }
+
+  private static getUsageKey(key: ApiKey, now: number): string {
+    return `usage:${key.id}:${Math.floor(now / ApiKeyAuth.DAY_MS)}`;
+  }
+
+  private static getResetTime(now: number): number {
+    return (Math.floor(now / ApiKeyAuth.DAY_MS) + 1) * ApiKeyAuth.DAY_MS;
+  }
+
+  private createErrorResponse(status: number, code: ErrorCode, error: string, message: string): NextResponse {
+    return NextResponse.json(ErrorHandler.createErrorResponse(code, error, message), { status });
+  }
+
+  /**
+   * Add quota headers, echo the origin instead of `*` for keys limited to
+   * specific origins, and keep shared caches from serving keyed responses to
+   * other clients
+   */
+  private applyHeaders(
+    response: NextResponse,
+    request: NextRequest,
+    key: ApiKey,
+    used: number,
+    resetAt: number
+  ): NextResponse {
+    if (key.daily_quota) {
+      response.headers.set('X-Quota-Limit', String(key.daily_quota));
+      response.headers.set('X-Quota-Remaining', String(Math.max(0, key.daily_quota - used)));
+      response.headers.set('X-Quota-Reset', String(Math.ceil(resetAt / 1000)));
+    }
+
+    const cacheControl = response.headers.get('cache-control');
+    if (cacheControl?.startsWith('public')) {
+      response.headers.set('Cache-Control', cacheControl.replace(/^public/, 'private'));
+    }
+
+    const origin = request.headers.get('origin');
+    if (origin && key.allowed_origins) {
+      response.headers.set('Access-Control-Allow-Origin', origin);
+      response.headers.append('Vary', 'Origin');
+    }
+
+    return response;
+  }
+}
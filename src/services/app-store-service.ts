@@ -1,53 +1,122 @@
-import { AppStoreApp, AppStoreReview, Env } from '../types';
+import { AppMetadata, AppReview, AppSearchEntity, Env, ReviewFeedStatus, ReviewFetchResult } from '../types';
+import { ReviewProvider } from './review-provider';
+import { UpstreamClient } from './upstream-client';
 import { Logger } from '../utils/logger';
 import { ErrorHandler } from '../utils/error-handler';
+import { ReviewIds } from '../utils/review-ids';
+import { ApiError, AppNotFoundError, BadGatewayError, NotFoundError } from '../utils/errors';
+
+export class AppStoreService implements ReviewProvider {
+  // The iTunes customer reviews RSS feed serves at most 10 pages per sort order
+  private static readonly MAX_RSS_PAGES = 10;
+  private static readonly DEFAULT_MAX_REVIEWS = 200;
+  private static readonly DEFAULT_SEARCH_LIMIT = 50;
+
+  readonly source = 'itunes' as const;
 
-export class AppStoreService {
   private env: Env;
+  private upstreamClient: UpstreamClient;
 
-  constructor(env: Env) {
+  constructor(env: Env, upstreamClient: UpstreamClient = new UpstreamClient(env)) {
     this.env = env;
+    this.upstreamClient = upstreamClient;
   }
 
   /**
-   * Get app metadata from iTunes API
+   * Get app metadata from iTunes API for a storefront, optionally localized
    */
-  async getAppMetadata(appId: string): Promise<AppStoreApp> {
+  async getAppMetadata(appId: string, country: string = 'us', lang?: string): Promise<AppMetadata> {
+    return this.lookup({ id: appId }, appId, country, lang);
+  }
+
+  /**
+   * Get app metadata by bundle ID (com.example.app), which carries the app's
+   * numeric ID
+   */
+  async getAppMetadataByBundleId(bundleId: string, country: string = 'us', lang?: string): Promise<AppMetadata> {
+    return this.lookup({ bundleId }, bundleId, country, lang);
+  }
+
+  /**
+   * Search a storefront with the iTunes Search API. Results are mapped like
+   * lookup results, in the order iTunes ranks them.
+   */
+  async searchApps(
+    term: string,
+    country: string = 'us',
+    options: { limit?: number; entity?: AppSearchEntity; lang?: string } = {}
+  ): Promise<AppMetadata[]> {
     try {
-      Logger.info('Fetching app metadata', 'APP_STORE', { app_id: appId });
-      
-      const url = `https://itunes.apple.com/lookup?id=${appId}`;
-      const response = await fetch(url, {
-        signal: AbortSignal.timeout(parseInt(this.env.REQUEST_TIMEOUT_MS))
+      Logger.info('Searching apps', 'APP_STORE', { term, country, entity: options.entity });
+
+      const params = new URLSearchParams({
+        term,
+        country,
+        media: 'software',
+        entity: options.entity ?? 'software',
+        limit: String(options.limit ?? AppStoreService.DEFAULT_SEARCH_LIMIT)
       });
+      if (options.lang) {
+        params.set('lang', options.lang);
+      }
+      const response = await this.upstreamClient.fetch(`https://itunes.apple.com/search?${params}`);
+
+      if (!response.ok) {
+        throw UpstreamClient.responseError(response, 'iTunes Search API');
+      }
+
+      const data = await response.json() as any;
+      if (!Array.isArray(data?.results)) {
+        throw new BadGatewayError('Invalid response format from iTunes Search API');
+      }
+
+      const apps = data.results
+        .filter((app: any) => app?.trackId !== undefined)
+        .map((app: any) => this.mapApp(String(app.trackId), country, app));
+
+      Logger.info('Successfully searched apps', 'APP_STORE', { term, country, results: apps.length });
+
+      return apps;
+    } catch (error) {
+      Logger.error('Failed to search apps', 'APP_STORE', { term, country }, error as Error);
+      throw error instanceof ApiError ? error : new BadGatewayError('Failed to search apps', { cause: error });
+    }
+  }
+
+  /**
+   * Look up one app with the iTunes lookup API, by ID or bundle ID
+   */
+  private async lookup(
+    query: { id: string } | { bundleId: string },
+    appRef: string,
+    country: string,
+    lang?: string
+  ): Promise<AppMetadata> {
+    try {
+      Logger.info('Fetching app metadata', 'APP_STORE', { app_id: appRef, country, lang });
+      
+      const params = new URLSearchParams({ ...query, country });
+      if (lang) {
+        params.set('lang', lang);
+      }
+      const url = `https://itunes.apple.com/lookup?${params}`;
+      const response = await this.upstreamClient.fetch(url);
 
       if (!response.ok) {
-        throw new Error(`iTunes API returned ${response.status}: ${response.statusText}`);
+        throw UpstreamClient.responseError(response, 'iTunes API');
       }
 
       const data = await response.json() as any;
 
       if (!data.results || data.results.length === 0) {
-        throw new Error('App not found in App Store');
+        throw new AppNotFoundError(appRef, country);
       }
 
       const app = data.results[0];
-      
-      const appMetadata: AppStoreApp = {
-        app_id: appId,
-        name: app.trackName || 'Unknown App',
-        rating: app.averageUserRating || 0,
-        rating_count: app.userRatingCount || 0,
-        reviews_count: app.userRatingCount || 0, // iTunes API doesn't separate ratings and reviews count
-        url: `https://apps.apple.com/app/id${appId}`,
-        platform: 'app_store',
-        last_updated: new Date().toISOString(),
-        screenshotUrls: app.screenshotUrls || [],
-        ipadScreenshotUrls: app.ipadScreenshotUrls || []
-      };
+      const appMetadata = this.mapApp('id' in query ? query.id : String(app.trackId), country, app);
 
       Logger.info('Successfully fetched app metadata', 'APP_STORE', { 
-        app_id: appId, 
+        app_id: appMetadata.app_id, 
         name: appMetadata.name,
         rating: appMetadata.rating,
         rating_count: appMetadata.rating_count
@@ -55,17 +124,71 @@ export class AppStoreService {
 
       return appMetadata;
     } catch (error) {
-      Logger.error('Failed to fetch app metadata', 'APP_STORE', { app_id: appId }, error as Error);
-      throw ErrorHandler.createError('Failed to fetch app metadata', error);
+      if (error instanceof NotFoundError) {
+        Logger.warn('App not found in storefront', 'APP_STORE', { app_id: appRef, country });
+        throw error;
+      }
+      Logger.error('Failed to fetch app metadata', 'APP_STORE', { app_id: appRef, country }, error as Error);
+      throw error instanceof ApiError ? error : new BadGatewayError('Failed to fetch app metadata', { cause: error });
     }
   }
 
   /**
-   * Get all available reviews from App Store using iTunes RSS feed with multiple sorting options
+   * Map an iTunes lookup or search result to app metadata
    */
-  async getReviews(appId: string, country: string = 'us'): Promise<AppStoreReview[]> {
+  private mapApp(appId: string, country: string, app: any): AppMetadata {
+    // The lookup API has no separate review count, so reviews_count is left unset
+    return {
+      app_id: appId,
+      name: app.trackName || 'Unknown App',
+      rating: app.averageUserRating || 0,
+      rating_count: app.userRatingCount || 0,
+      url: `https://apps.apple.com/app/id${appId}`,
+      platform: 'app_store',
+      last_updated: new Date().toISOString(),
+      country,
+      bundle_id: app.bundleId,
+      description: app.description,
+      version: app.version,
+      release_notes: app.releaseNotes,
+      release_date: app.releaseDate,
+      current_version_release_date: app.currentVersionReleaseDate,
+      current_version_rating: app.averageUserRatingForCurrentVersion,
+      current_version_rating_count: app.userRatingCountForCurrentVersion,
+      genres: app.genres,
+      primary_genre: app.primaryGenreName,
+      developer_name: app.artistName,
+      developer_id: app.artistId !== undefined ? String(app.artistId) : undefined,
+      price: app.price,
+      currency: app.currency,
+      formatted_price: app.formattedPrice,
+      content_rating: app.trackContentRating || app.contentAdvisoryRating,
+      file_size_bytes: app.fileSizeBytes !== undefined ? parseInt(app.fileSizeBytes) : undefined,
+      minimum_os_version: app.minimumOsVersion,
+      supported_devices: app.supportedDevices,
+      languages: app.languageCodesISO2A,
+      icon_urls: {
+        small: app.artworkUrl60,
+        medium: app.artworkUrl100,
+        large: app.artworkUrl512
+      },
+      screenshotUrls: app.screenshotUrls || [],
+      ipadScreenshotUrls: app.ipadScreenshotUrls || [],
+      appletvScreenshotUrls: app.appletvScreenshotUrls || []
+    };
+  }
+
+  /**
+   * Get all available reviews from App Store using iTunes RSS feed with multiple sorting options.
+   * Each sort order is paged through (up to MAX_RSS_PAGES) round-robin until the feeds run out
+   * or MAX_REVIEWS_PER_APP unique reviews have been collected. Every page request
+   * is reported in `sources`; a failed page ends that sort order.
+   */
+  async getReviews(appId: string, country: string = 'us', lang?: string): Promise<ReviewFetchResult> {
+    const sources: ReviewFeedStatus[] = [];
+
     try {
-      Logger.info('Fetching App Store reviews with multiple sorting options', 'APP_STORE', { app_id: appId, country });
+      Logger.info('Fetching App Store reviews with multiple sorting options', 'APP_STORE', { app_id: appId, country, lang });
       
       // Define sorting options to get more comprehensive reviews
       const sortOptions = [
@@ -75,109 +198,237 @@ export class AppStoreService {
         'mostCritical'
       ];
       
-      const allReviews: AppStoreReview[] = [];
-      const reviewMap = new Map<string, AppStoreReview>(); // To track unique reviews and their types
+      const maxReviews = this.getMaxReviews();
+      const reviewMap = new Map<string, AppReview>(); // To track unique reviews and their types
+      const nextPages = new Map<string, number>(sortOptions.map(sortBy => [sortBy, 1]));
+      let pagesFetched = 0;
       
-      for (const sortBy of sortOptions) {
-        try {
-          const rssUrl = `https://itunes.apple.com/${country}/rss/customerreviews/id=${appId}/sortBy=${sortBy}/json`;
-          const response = await fetch(rssUrl, {
-            signal: AbortSignal.timeout(parseInt(this.env.REQUEST_TIMEOUT_MS))
-          });
-          
-          if (!response.ok) {
-            Logger.warn(`Failed to fetch ${sortBy} reviews`, 'APP_STORE', { 
-              app_id: appId, 
-              sortBy,
-              status: response.status 
-            });
-            continue;
-          }
-          
-          const data = await response.json() as any;
-          
-          if (!data.feed || !data.feed.entry || !Array.isArray(data.feed.entry)) {
-            Logger.warn(`Invalid RSS feed format for ${sortBy}`, 'APP_STORE', { app_id: appId, sortBy });
-            continue;
+      while (nextPages.size > 0 && reviewMap.size < maxReviews) {
+        for (const [sortBy, page] of Array.from(nextPages.entries())) {
+          if (reviewMap.size >= maxReviews) {
+            break;
           }
-          
-          // Skip the first entry as it's usually app metadata
-          const reviews = data.feed.entry.slice(1, 50); // Get all available reviews (max 49)
-          
-          for (const review of reviews) {
-            // Create a unique ID based on content to avoid duplicates
-            const reviewContent = review.content?.label || '';
-            const reviewAuthor = review.author?.name?.label || '';
-            const reviewDate = review.updated?.label || '';
-            const uniqueId = `${reviewContent.substring(0, 50)}_${reviewAuthor}_${reviewDate}`;
+
+          try {
+            const { entries, nextPage } = await this.fetchReviewsPage(appId, country, lang, sortBy, page);
+            pagesFetched++;
+            sources.push({
+              source: this.source,
+              country,
+              feed: sortBy,
+              page,
+              status: 'ok',
+              reviews_count: entries.length
+            });
             
-            if (reviewMap.has(uniqueId)) {
-              // Review already exists, add this sorting type to it
-              const existingReview = reviewMap.get(uniqueId)!;
-              if (!existingReview.review_types.includes(sortBy)) {
-                existingReview.review_types.push(sortBy);
+            for (const entry of entries) {
+              const review = this.mapReviewEntry(appId, country, sortBy, entry);
+              
+              if (reviewMap.has(review.id)) {
+                // Review already exists, add this sorting type to it
+                const existingReview = reviewMap.get(review.id)!;
+                if (!existingReview.review_types.includes(sortBy)) {
+                  existingReview.review_types.push(sortBy);
+                }
+              } else {
+                // New review, create it with this sorting type
+                reviewMap.set(review.id, review);
               }
+            }
+            
+            Logger.info(`Successfully fetched ${sortBy} reviews`, 'APP_STORE', { 
+              app_id: appId, 
+              sortBy,
+              page,
+              reviews_count: entries.length 
+            });
+
+            if (entries.length === 0 || nextPage === null) {
+              nextPages.delete(sortBy);
             } else {
-              // New review, create it with this sorting type
-              const newReview: AppStoreReview = {
-                id: `appstore_${appId}_${sortBy}_${reviewMap.size}`,
-                rating: parseInt(review['im:rating']?.label || '0'),
-                title: review.title?.label || '',
-                content: reviewContent,
-                author: reviewAuthor,
-                date: reviewDate,
-                helpful_votes: parseInt(review['im:voteSum']?.label || '0'),
-                app_id: appId,
-                review_types: [sortBy]
-              };
-              reviewMap.set(uniqueId, newReview);
+              nextPages.set(sortBy, nextPage);
             }
+          } catch (error) {
+            Logger.error(`Failed to fetch ${sortBy} reviews`, 'APP_STORE', { app_id: appId, sortBy, page }, error as Error);
+            sources.push({
+              source: this.source,
+              country,
+              feed: sortBy,
+              page,
+              status: 'failed',
+              reviews_count: 0,
+              error: (error as Error)?.message || 'Unknown error',
+              error_code: ErrorHandler.getErrorCode(error)
+            });
+            nextPages.delete(sortBy);
           }
-          
-          Logger.info(`Successfully fetched ${sortBy} reviews`, 'APP_STORE', { 
-            app_id: appId, 
-            sortBy,
-            reviews_count: reviews.length 
-          });
-          
-        } catch (error) {
-          Logger.error(`Failed to fetch ${sortBy} reviews`, 'APP_STORE', { app_id: appId, sortBy }, error as Error);
-          continue;
         }
       }
       
-      // Convert map values to array and sort by date (most recent first) - return all available reviews
+      // Convert map values to array and sort by date (most recent first)
       const sortedReviews = Array.from(reviewMap.values())
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .slice(0, maxReviews);
       
       Logger.info('Successfully fetched combined App Store reviews', 'APP_STORE', { 
         app_id: appId, 
         total_found: reviewMap.size,
         reviews_count: sortedReviews.length,
-        sort_options_used: sortOptions.length
+        sort_options_used: sortOptions.length,
+        pages_fetched: pagesFetched,
+        pages_failed: sources.length - pagesFetched
       });
       
-      return sortedReviews;
+      return { reviews: sortedReviews, sources };
     } catch (error) {
       Logger.error('Failed to get App Store reviews', 'APP_STORE', { app_id: appId }, error as Error);
-      return [];
+      return { reviews: [], sources };
     }
   }
 
+  /**
+   * Get reviews posted at or after `since` by paging through the mostRecent feed
+   * until it reaches older reviews or runs out. This is not capped at
+   * MAX_REVIEWS_PER_APP, so an incremental sync does not skip reviews between
+   * the cap and `since`. Without `since` this is a full getReviews.
+   */
+  async getReviewsSince(appId: string, country: string = 'us', since: string | null, lang?: string): Promise<ReviewFetchResult> {
+    if (!since) {
+      return this.getReviews(appId, country, lang);
+    }
+
+    try {
+      Logger.info('Fetching recent App Store reviews', 'APP_STORE', { app_id: appId, country, since });
+
+      const sinceTime = new Date(since).getTime();
+      const reviews: AppReview[] = [];
+      const sources: ReviewFeedStatus[] = [];
+      let page: number | null = 1;
+
+      while (page !== null) {
+        const { entries, nextPage } = await this.fetchReviewsPage(appId, country, lang, 'mostRecent', page);
+        sources.push({ source: this.source, country, feed: 'mostRecent', page, status: 'ok', reviews_count: entries.length });
+        const pageReviews = entries.map(entry => this.mapReviewEntry(appId, country, 'mostRecent', entry));
+        const newerReviews = pageReviews.filter(review => new Date(review.date).getTime() >= sinceTime);
+        reviews.push(...newerReviews);
+
+        // The feed is newest first, so an older review means the rest are older too
+        if (newerReviews.length < pageReviews.length || entries.length === 0) {
+          break;
+        }
+        page = nextPage;
+      }
+
+      Logger.info('Successfully fetched recent App Store reviews', 'APP_STORE', {
+        app_id: appId,
+        country,
+        reviews_count: reviews.length
+      });
+
+      return { reviews, sources };
+    } catch (error) {
+      Logger.error('Failed to fetch recent App Store reviews', 'APP_STORE', { app_id: appId, country }, error as Error);
+      throw error instanceof ApiError ? error : new BadGatewayError('Failed to fetch recent App Store reviews', { cause: error });
+    }
+  }
+
+  /**
+   * Map an RSS feed entry to a review tagged with the sort order it came from
+   */
+  private mapReviewEntry(appId: string, country: string, sortBy: string, entry: any): AppReview {
+    const content = entry.content?.label || '';
+    const author = entry.author?.name?.label || '';
+    const date = entry.updated?.label || '';
+
+    return {
+      // Stable ID from the feed entry (or its content) so duplicates across sort orders collapse
+      id: ReviewIds.create(appId, { upstreamId: entry.id?.label, author, date, content }),
+      rating: parseInt(entry['im:rating']?.label || '0'),
+      title: entry.title?.label || '',
+      content,
+      author,
+      date,
+      helpful_votes: parseInt(entry['im:voteSum']?.label || '0'),
+      version: entry['im:version']?.label || undefined,
+      app_id: appId,
+      platform: 'app_store',
+      country,
+      review_types: [sortBy]
+    };
+  }
+
+  /**
+   * Fetch a single page of the customer reviews RSS feed for one sort order.
+   * Returns the review entries and the next page number taken from the feed's
+   * `link rel="next"`, or null when this is the last page. `lang` selects the
+   * feed language with Apple's `l` parameter.
+   */
+  private async fetchReviewsPage(
+    appId: string,
+    country: string,
+    lang: string | undefined,
+    sortBy: string,
+    page: number
+  ): Promise<{
+    entries: any[];
+    nextPage: number | null;
+  }> {
+    const query = lang ? `?${new URLSearchParams({ l: lang })}` : '';
+    const rssUrl = `https://itunes.apple.com/${country}/rss/customerreviews/page=${page}/id=${appId}/sortBy=${sortBy}/json${query}`;
+    const response = await this.upstreamClient.fetch(rssUrl);
+
+    if (!response.ok) {
+      throw UpstreamClient.responseError(response, 'iTunes RSS feed');
+    }
+
+    const data = await response.json() as any;
+
+    if (!data.feed) {
+      throw new BadGatewayError(`Invalid RSS feed format for ${sortBy}`);
+    }
+
+    // A feed with a single entry returns it as an object rather than an array.
+    // Entries without a rating (the app itself on page 1) are not reviews.
+    const rawEntries = Array.isArray(data.feed.entry) ? data.feed.entry : data.feed.entry ? [data.feed.entry] : [];
+    const entries = rawEntries.filter((entry: any) => entry?.['im:rating']);
+
+    return { entries, nextPage: this.getNextPage(data.feed, page) };
+  }
+
+  /**
+   * Read the next page number from the feed's `link rel="next"`
+   */
+  private getNextPage(feed: any, currentPage: number): number | null {
+    const links = Array.isArray(feed.link) ? feed.link : feed.link ? [feed.link] : [];
+    const nextLink = links.find((link: any) => link?.attributes?.rel === 'next');
+    const match = nextLink?.attributes?.href?.match(/page=(\d+)/);
+
+    if (!match) {
+      return null;
+    }
+
+    const nextPage = parseInt(match[1]);
+    return nextPage > currentPage && nextPage <= AppStoreService.MAX_RSS_PAGES ? nextPage : null;
+  }
+
+  private getMaxReviews(): number {
+    const maxReviews = parseInt(this.env.MAX_REVIEWS_PER_APP);
+    return Number.isFinite(maxReviews) && maxReviews > 0 ? maxReviews : AppStoreService.DEFAULT_MAX_REVIEWS;
+  }
+
   /**
    * Get app metadata and reviews in one call
    */
-  async getAppWithReviews(appId: string, country: string = 'us'): Promise<{
-    metadata: AppStoreApp;
-    reviews: AppStoreReview[];
+  async getAppWithReviews(appId: string, country: string = 'us', lang?: string): Promise<ReviewFetchResult & {
+    metadata: AppMetadata;
   }> {
     try {
-      Logger.info('Fetching app with reviews', 'APP_STORE', { app_id: appId, country });
+      Logger.info('Fetching app with reviews', 'APP_STORE', { app_id: appId, country, lang });
       
       // Fetch metadata and reviews in parallel
-      const [metadata, reviews] = await Promise.all([
-        this.getAppMetadata(appId),
-        this.getReviews(appId, country)
+      const [metadata, { reviews, sources }] = await Promise.all([
+        this.getAppMetadata(appId, country, lang),
+        this.getReviews(appId, country, lang)
       ]);
 
       Logger.info('Successfully fetched app with reviews', 'APP_STORE', { 
@@ -185,10 +436,13 @@ export class AppStoreService {
         reviews_count: reviews.length
       });
 
-      return { metadata, reviews };
+      return { metadata, reviews, sources };
     } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
       Logger.error('Failed to get app with reviews', 'APP_STORE', { app_id: appId }, error as Error);
-      throw ErrorHandler.createError('Failed to get app with reviews', error);
+      throw error instanceof ApiError ? error : ErrorHandler.createError('Failed to get app with reviews', error);
     }
   }
 
@@ -1,39 +1,53 @@
-import { AppStoreApp, AppStoreReview, Env } from '../types';
+import { AppMetadata, AppReview, Env, ReviewFeedStatus, ReviewFetchResult } from '../types';
+import { ReviewProvider } from './review-provider';
+import { UpstreamClient } from './upstream-client';
 import { Logger } from '../utils/logger';
 import { ErrorHandler } from '../utils/error-handler';
+import { ReviewIds } from '../utils/review-ids';
+import { ApiError, AppNotFoundError, BadGatewayError, NotFoundError } from '../utils/errors';
+
+export class ASOMarketService implements ReviewProvider {
+  private static readonly DEFAULT_BASE_URL = 'https://ios.reviews.aso.market';
+  private static readonly DEFAULT_MAX_REVIEWS = 200;
+
+  readonly source = 'aso_market' as const;
 
-export class ASOMarketService {
   private env: Env;
+  private upstreamClient: UpstreamClient;
   private baseUrl: string;
 
-  constructor(env: Env) {
+  constructor(env: Env, upstreamClient: UpstreamClient = new UpstreamClient(env)) {
     this.env = env;
-    this.baseUrl = 'https://ios.reviews.aso.market';
+    this.upstreamClient = upstreamClient;
+    this.baseUrl = (env.ASO_MARKET_API_URL || ASOMarketService.DEFAULT_BASE_URL).replace(/\/+$/, '');
   }
 
   /**
-   * Get app metadata from ASO Market API
+   * Get app metadata from ASO Market API. The API is not storefront-aware, so
+   * `country` is only recorded on the result and `lang` is ignored.
    */
-  async getAppMetadata(appId: string): Promise<AppStoreApp> {
+  async getAppMetadata(appId: string, country: string = 'us', lang?: string): Promise<AppMetadata> {
     try {
       Logger.info('Fetching app metadata from ASO Market', 'ASO_MARKET', { app_id: appId });
       
       const url = `${this.baseUrl}/api/apps/${appId}`;
-      const response = await fetch(url, {
-        signal: AbortSignal.timeout(parseInt(this.env.REQUEST_TIMEOUT_MS)),
+      const response = await this.upstreamClient.fetch(url, {
         headers: {
           'Content-Type': 'application/json',
           'User-Agent': 'reviews-ratings-api/1.0.0'
         }
       });
 
+      if (response.status === 404) {
+        throw new AppNotFoundError(appId);
+      }
       if (!response.ok) {
-        throw new Error(`ASO Market API returned ${response.status}: ${response.statusText}`);
+        throw UpstreamClient.responseError(response, 'ASO Market API');
       }
 
       const data = await response.json() as any;
       
-      const appMetadata: AppStoreApp = {
+      const appMetadata: AppMetadata = {
         app_id: appId,
         name: data.name || 'Unknown App',
         rating: data.rating || 0,
@@ -42,6 +56,7 @@ export class ASOMarketService {
         url: `https://apps.apple.com/app/id${appId}`,
         platform: 'app_store',
         last_updated: new Date().toISOString(),
+        country,
         screenshotUrls: data.screenshotUrls || [],
         ipadScreenshotUrls: data.ipadScreenshotUrls || []
       };
@@ -55,79 +70,136 @@ export class ASOMarketService {
 
       return appMetadata;
     } catch (error) {
+      if (error instanceof NotFoundError) {
+        Logger.warn('App not found in ASO Market', 'ASO_MARKET', { app_id: appId });
+        throw error;
+      }
       Logger.error('Failed to fetch app metadata from ASO Market', 'ASO_MARKET', { app_id: appId }, error as Error);
-      throw ErrorHandler.createError('Failed to fetch app metadata from ASO Market', error);
+      throw error instanceof ApiError
+        ? error
+        : new BadGatewayError('Failed to fetch app metadata from ASO Market', { cause: error });
     }
   }
 
   /**
-   * Get recent reviews from ASO Market API
+   * Get recent reviews from ASO Market API. The API returns them in a single
+   * request, reported as the one `reviews` feed in `sources`. `lang` is ignored.
    */
-  async getReviews(appId: string, limit: number = 3, country: string = 'us'): Promise<AppStoreReview[]> {
+  async getReviews(
+    appId: string,
+    country: string = 'us',
+    lang?: string,
+    limit: number = this.getMaxReviews()
+  ): Promise<ReviewFetchResult> {
+    const feed: Pick<ReviewFeedStatus, 'source' | 'country' | 'feed' | 'page'> = {
+      source: this.source,
+      country,
+      feed: 'reviews',
+      page: 1
+    };
+
     try {
       Logger.info('Fetching reviews from ASO Market', 'ASO_MARKET', { app_id: appId, limit, country });
       
       const url = `${this.baseUrl}/api/apps/${appId}/reviews?limit=${limit}&country=${country}`;
-      const response = await fetch(url, {
-        signal: AbortSignal.timeout(parseInt(this.env.REQUEST_TIMEOUT_MS)),
+      const response = await this.upstreamClient.fetch(url, {
         headers: {
           'Content-Type': 'application/json',
           'User-Agent': 'reviews-ratings-api/1.0.0'
         }
       });
       
+      if (response.status === 404) {
+        throw new AppNotFoundError(appId);
+      }
       if (!response.ok) {
-        Logger.warn('Failed to fetch reviews from ASO Market', 'ASO_MARKET', { 
-          app_id: appId, 
-          status: response.status 
-        });
-        return [];
+        throw UpstreamClient.responseError(response, 'ASO Market API');
       }
       
       const data = await response.json() as any;
       
       if (!data.reviews || !Array.isArray(data.reviews)) {
-        Logger.warn('Invalid response format from ASO Market', 'ASO_MARKET', { app_id: appId });
-        return [];
+        throw new BadGatewayError('Invalid response format from ASO Market');
       }
       
-      const formattedReviews: AppStoreReview[] = data.reviews.map((review: any, index: number) => ({
-        id: `asomarket_${appId}_${index}`,
-        rating: review.rating || 0,
-        title: review.title || '',
-        content: review.content || '',
-        author: review.author || 'Anonymous',
-        date: review.date || new Date().toISOString(),
-        helpful_votes: review.helpful_votes || 0,
-        app_id: appId
-      }));
+      const formattedReviews: AppReview[] = data.reviews.map((review: any) => {
+        const content = review.content || '';
+        const author = review.author || 'Anonymous';
+        const date = review.date || '';
+
+        return {
+          id: ReviewIds.create(appId, { upstreamId: review.id, author, date, content }),
+          rating: review.rating || 0,
+          title: review.title || '',
+          content,
+          author,
+          date: date || new Date().toISOString(),
+          helpful_votes: review.helpful_votes || 0,
+          app_id: appId,
+          platform: 'app_store',
+          country,
+          review_types: []
+        };
+      });
       
       Logger.info('Successfully fetched reviews from ASO Market', 'ASO_MARKET', { 
         app_id: appId, 
         reviews_count: formattedReviews.length 
       });
       
-      return formattedReviews;
+      return {
+        reviews: formattedReviews,
+        sources: [{ ...feed, status: 'ok', reviews_count: formattedReviews.length }]
+      };
     } catch (error) {
       Logger.error('Failed to get reviews from ASO Market', 'ASO_MARKET', { app_id: appId }, error as Error);
-      return [];
+      return {
+        reviews: [],
+        sources: [{
+          ...feed,
+          status: 'failed',
+          reviews_count: 0,
+          error: (error as Error)?.message || 'Unknown error',
+          error_code: ErrorHandler.getErrorCode(error)
+        }]
+      };
     }
   }
 
+  /**
+   * Get reviews posted at or after `since`. The ASO Market API cannot filter by
+   * date, so this fetches the latest reviews and filters them. A failed request
+   * is reported in `sources` as for getReviews. The API cannot page either: only
+   * the latest MAX_REVIEWS_PER_APP reviews are reachable through ASO Market.
+   */
+  async getReviewsSince(appId: string, country: string = 'us', since: string | null): Promise<ReviewFetchResult> {
+    const { reviews, sources } = await this.getReviews(appId, country);
+    if (!since) {
+      return { reviews, sources };
+    }
+
+    const sinceTime = new Date(since).getTime();
+    return { reviews: reviews.filter(review => new Date(review.date).getTime() >= sinceTime), sources };
+  }
+
   /**
    * Get app metadata and reviews in one call
    */
-  async getAppWithReviews(appId: string, limit: number = 3, country: string = 'us'): Promise<{
-    metadata: AppStoreApp;
-    reviews: AppStoreReview[];
+  async getAppWithReviews(
+    appId: string,
+    country: string = 'us',
+    lang?: string,
+    limit: number = this.getMaxReviews()
+  ): Promise<ReviewFetchResult & {
+    metadata: AppMetadata;
   }> {
     try {
       Logger.info('Fetching app with reviews from ASO Market', 'ASO_MARKET', { app_id: appId, limit, country });
       
       // Fetch metadata and reviews in parallel
-      const [metadata, reviews] = await Promise.all([
-        this.getAppMetadata(appId),
-        this.getReviews(appId, limit, country)
+      const [metadata, { reviews, sources }] = await Promise.all([
+        this.getAppMetadata(appId, country),
+        this.getReviews(appId, country, lang, limit)
       ]);
 
       Logger.info('Successfully fetched app with reviews from ASO Market', 'ASO_MARKET', { 
@@ -135,10 +207,17 @@ export class ASOMarketService {
         reviews_count: reviews.length
       });
 
-      return { metadata, reviews };
+      return { metadata, reviews, sources };
     } catch (error) {
       Logger.error('Failed to get app with reviews from ASO Market', 'ASO_MARKET', { app_id: appId }, error as Error);
-      throw ErrorHandler.createError('Failed to get app with reviews from ASO Market', error);
+      throw error instanceof ApiError
+        ? error
+        : ErrorHandler.createError('Failed to get app with reviews from ASO Market', error);
     }
   }
+
+  private getMaxReviews(): number {
+    const maxReviews = parseInt(this.env.MAX_REVIEWS_PER_APP);
+    return Number.isFinite(maxReviews) && maxReviews > 0 ? maxReviews : ASOMarketService.DEFAULT_MAX_REVIEWS;
+  }
 }
@@ -0,0 +1,87 @@
+import { CacheStore, defaultCacheStore } from '../utils/cache-store';
+import { Logger } from '../utils/logger';
+
+export interface CachePolicy {
+  ttlSeconds: number;
+  staleSeconds: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  fresh_until: number;
+  stale_until: number;
+}
+
+/**
+ * Read-through cache with stale-while-revalidate: fresh entries are served as is,
+ * stale entries are served while a background refresh runs, and expired or
+ * missing entries are loaded before returning.
+ */
+export class CacheService {
+  // Keys currently being revalidated, so concurrent stale hits trigger one refresh
+  private static revalidating = new Set<string>();
+
+  constructor(private store: CacheStore = defaultCacheStore) {}
+
+  async getOrLoad<T>(
+    key: string,
+    policy: CachePolicy,
+    load: () => Promise<T>,
+    options: { refresh?: boolean; shouldCache?: (value: T) => boolean } = {}
+  ): Promise<T> {
+    if (!options.refresh && policy.ttlSeconds > 0) {
+      const entry = await this.store.get<CacheEntry<T>>(key);
+      const now = Date.now();
+
+      if (entry && now < entry.fresh_until) {
+        Logger.debug('Cache hit', 'CACHE', { key });
+        return entry.value;
+      }
+
+      if (entry && now < entry.stale_until) {
+        Logger.debug('Serving stale cache entry', 'CACHE', { key });
+        this.revalidate(key, policy, load, options.shouldCache);
+        return entry.value;
+      }
+    }
+
+    return this.loadAndStore(key, policy, load, options.shouldCache);
+  }
+
+  private async loadAndStore<T>(
+    key: string,
+    policy: CachePolicy,
+    load: () => Promise<T>,
+    shouldCache?: (value: T) => boolean
+  ): Promise<T> {
+    const value = await load();
+
+    if (policy.ttlSeconds > 0 && (!shouldCache || shouldCache(value))) {
+      const now = Date.now();
+      const entry: CacheEntry<T> = {
+        value,
+        fresh_until: now + policy.ttlSeconds * 1000,
+        stale_until: now + (policy.ttlSeconds + policy.staleSeconds) * 1000
+      };
+      await this.store.set(key, entry, policy.ttlSeconds + policy.staleSeconds);
+    }
+
+    return value;
+  }
+
+  private revalidate<T>(
+    key: string,
+    policy: CachePolicy,
+    load: () => Promise<T>,
+    shouldCache?: (value: T) => boolean
+  ): void {
+    if (CacheService.revalidating.has(key)) {
+      return;
+    }
+
+    CacheService.revalidating.add(key);
+    this.loadAndStore(key, policy, load, shouldCache)
+      .catch(error => Logger.warn('Background cache revalidation failed', 'CACHE', { key, error: error?.message }))
+      .finally(() => CacheService.revalidating.delete(key));
+  }
+}
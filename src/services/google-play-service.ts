@@ -0,0 +1,361 @@
+import { AppMetadata, AppReview, Env, ReviewFeedStatus, ReviewFetchResult } from '../types';
+import { ReviewProvider } from './review-provider';
+import { UpstreamClient } from './upstream-client';
+import { Logger } from '../utils/logger';
+import { ErrorHandler } from '../utils/error-handler';
+import { ReviewIds } from '../utils/review-ids';
+import { ApiError, AppNotFoundError, BadGatewayError, NotFoundError } from '../utils/errors';
+
+/**
+ * Google Play apps, identified by package name. Google Play has no public API:
+ * metadata is read from the data embedded in the app's store page, and reviews
+ * come from the batchexecute RPC that the store's web client pages through.
+ * Neither format is documented, so fields that cannot be found are left unset.
+ */
+export class GooglePlayService implements ReviewProvider {
+  private static readonly BASE_URL = 'https://play.google.com';
+  private static readonly REVIEWS_RPC_ID = 'UsvDTd';
+  // Sort orders of the reviews RPC, keyed by the review type they are reported as
+  private static readonly SORT_ORDERS: Record<string, number> = {
+    mostRecent: 2,
+    mostHelpful: 1
+  };
+  private static readonly REVIEWS_PER_PAGE = 100;
+  private static readonly MAX_PAGES = 10;
+  private static readonly DEFAULT_MAX_REVIEWS = 200;
+  private static readonly DEFAULT_LANGUAGE = 'en';
+
+  readonly source = 'google_play' as const;
+
+  private env: Env;
+  private upstreamClient: UpstreamClient;
+
+  constructor(env: Env, upstreamClient: UpstreamClient = new UpstreamClient(env)) {
+    this.env = env;
+    this.upstreamClient = upstreamClient;
+  }
+
+  /**
+   * Get app metadata from the Google Play store page for a country, optionally localized
+   */
+  async getAppMetadata(appId: string, country: string = 'us', lang?: string): Promise<AppMetadata> {
+    try {
+      Logger.info('Fetching app metadata from Google Play', 'GOOGLE_PLAY', { app_id: appId, country, lang });
+
+      const params = new URLSearchParams({ id: appId, gl: country, hl: this.getLanguage(lang) });
+      const response = await this.upstreamClient.fetch(`${GooglePlayService.BASE_URL}/store/apps/details?${params}`);
+
+      if (response.status === 404) {
+        throw new AppNotFoundError(appId, country, 'Google Play store');
+      }
+      if (!response.ok) {
+        throw UpstreamClient.responseError(response, 'Google Play');
+      }
+
+      const app = this.at(this.extractPageData(await response.text())['ds:5'], [1, 2]);
+      if (!app) {
+        throw new BadGatewayError('Unrecognized Google Play app page format');
+      }
+
+      const updatedSeconds = this.at(app, [145, 0, 1, 0]);
+      const releaseDate = Date.parse(this.at(app, [10, 0]));
+      const price = this.at(app, [57, 0, 0, 0, 0, 1, 0, 0]);
+      const developerUrl: string | undefined = this.at(app, [68, 1, 4, 2]);
+      const genre: string | undefined = this.at(app, [79, 0, 0, 0]);
+      const screenshots: any[] = this.at(app, [78, 0]) ?? [];
+
+      const appMetadata: AppMetadata = {
+        app_id: appId,
+        name: this.at(app, [0, 0]) || 'Unknown App',
+        rating: this.at(app, [51, 0, 1]) || 0,
+        rating_count: this.at(app, [51, 2, 1]) || 0,
+        reviews_count: this.at(app, [51, 3, 1]),
+        url: `${GooglePlayService.BASE_URL}/store/apps/details?id=${encodeURIComponent(appId)}`,
+        platform: 'google_play',
+        last_updated: new Date().toISOString(),
+        country,
+        description: this.at(app, [72, 0, 1]),
+        version: this.at(app, [140, 0, 0, 0]),
+        release_notes: this.at(app, [144, 1, 1]),
+        release_date: Number.isNaN(releaseDate) ? undefined : new Date(releaseDate).toISOString(),
+        current_version_release_date: typeof updatedSeconds === 'number'
+          ? new Date(updatedSeconds * 1000).toISOString()
+          : undefined,
+        genres: genre ? [genre] : undefined,
+        primary_genre: genre,
+        developer_name: this.at(app, [68, 0]),
+        developer_id: developerUrl?.split('id=')[1],
+        // Prices are in micro-units
+        price: typeof price === 'number' ? price / 1_000_000 : undefined,
+        currency: this.at(app, [57, 0, 0, 0, 0, 1, 0, 1]),
+        formatted_price: this.at(app, [57, 0, 0, 0, 0, 1, 0, 2]),
+        content_rating: this.at(app, [9, 0]),
+        installs: this.at(app, [13, 1]),
+        minimum_os_version: this.at(app, [140, 1, 1, 0, 0, 1]),
+        icon_urls: {
+          large: this.at(app, [95, 0, 3, 2])
+        },
+        screenshotUrls: screenshots.map(screenshot => this.at(screenshot, [3, 2])).filter(Boolean)
+      };
+
+      Logger.info('Successfully fetched app metadata from Google Play', 'GOOGLE_PLAY', {
+        app_id: appId,
+        name: appMetadata.name,
+        rating: appMetadata.rating,
+        rating_count: appMetadata.rating_count
+      });
+
+      return appMetadata;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        Logger.warn('App not found in Google Play', 'GOOGLE_PLAY', { app_id: appId, country });
+        throw error;
+      }
+      Logger.error('Failed to fetch app metadata from Google Play', 'GOOGLE_PLAY', { app_id: appId, country }, error as Error);
+      throw error instanceof ApiError
+        ? error
+        : new BadGatewayError('Failed to fetch app metadata from Google Play', { cause: error });
+    }
+  }
+
+  /**
+   * Get reviews in the `lang` language (default English), paging through the
+   * newest and most helpful sort orders round-robin (up to MAX_PAGES each) until
+   * they run out or MAX_REVIEWS_PER_APP unique reviews have been collected.
+   * Every page request is reported in `sources`; a failed page ends that sort order.
+   */
+  async getReviews(appId: string, country: string = 'us', lang?: string): Promise<ReviewFetchResult> {
+    const sources: ReviewFeedStatus[] = [];
+    const maxReviews = this.getMaxReviews();
+    const reviewMap = new Map<string, AppReview>();
+    const pending = new Map<string, { page: number; token: string | null }>(
+      Object.keys(GooglePlayService.SORT_ORDERS).map(sortBy => [sortBy, { page: 1, token: null }])
+    );
+
+    Logger.info('Fetching Google Play reviews', 'GOOGLE_PLAY', { app_id: appId, country, lang });
+
+    while (pending.size > 0 && reviewMap.size < maxReviews) {
+      for (const [sortBy, { page, token }] of Array.from(pending.entries())) {
+        if (reviewMap.size >= maxReviews) {
+          break;
+        }
+
+        try {
+          const { entries, nextToken } = await this.fetchReviewsPage(appId, country, lang, sortBy, token);
+          sources.push({ source: this.source, country, feed: sortBy, page, status: 'ok', reviews_count: entries.length });
+
+          for (const entry of entries) {
+            const review = this.mapReviewEntry(appId, country, sortBy, entry);
+            const existing = reviewMap.get(review.id);
+            if (!existing) {
+              reviewMap.set(review.id, review);
+            } else if (!existing.review_types.includes(sortBy)) {
+              existing.review_types.push(sortBy);
+            }
+          }
+
+          if (entries.length === 0 || !nextToken || page >= GooglePlayService.MAX_PAGES) {
+            pending.delete(sortBy);
+          } else {
+            pending.set(sortBy, { page: page + 1, token: nextToken });
+          }
+        } catch (error) {
+          Logger.error(`Failed to fetch ${sortBy} Google Play reviews`, 'GOOGLE_PLAY', { app_id: appId, sortBy, page }, error as Error);
+          sources.push({
+            source: this.source,
+            country,
+            feed: sortBy,
+            page,
+            status: 'failed',
+            reviews_count: 0,
+            error: (error as Error)?.message || 'Unknown error',
+            error_code: ErrorHandler.getErrorCode(error)
+          });
+          pending.delete(sortBy);
+        }
+      }
+    }
+
+    const reviews = Array.from(reviewMap.values())
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, maxReviews);
+
+    Logger.info('Successfully fetched Google Play reviews', 'GOOGLE_PLAY', {
+      app_id: appId,
+      reviews_count: reviews.length,
+      pages_fetched: sources.filter(feed => feed.status === 'ok').length,
+      pages_failed: sources.filter(feed => feed.status === 'failed').length
+    });
+
+    return { reviews, sources };
+  }
+
+  /**
+   * Get reviews posted at or after `since` by paging through the newest reviews
+   * until they reach older ones or run out. This is not capped at
+   * MAX_REVIEWS_PER_APP, so an incremental sync does not skip reviews between
+   * the cap and `since`. Without `since` this is a full getReviews.
+   */
+  async getReviewsSince(appId: string, country: string = 'us', since: string | null, lang?: string): Promise<ReviewFetchResult> {
+    if (!since) {
+      return this.getReviews(appId, country, lang);
+    }
+
+    try {
+      Logger.info('Fetching recent Google Play reviews', 'GOOGLE_PLAY', { app_id: appId, country, since });
+
+      const sinceTime = new Date(since).getTime();
+      const reviews: AppReview[] = [];
+      const sources: ReviewFeedStatus[] = [];
+      let token: string | null = null;
+
+      for (let page = 1; page <= GooglePlayService.MAX_PAGES; page++) {
+        const { entries, nextToken } = await this.fetchReviewsPage(appId, country, lang, 'mostRecent', token);
+        sources.push({ source: this.source, country, feed: 'mostRecent', page, status: 'ok', reviews_count: entries.length });
+        const pageReviews = entries.map(entry => this.mapReviewEntry(appId, country, 'mostRecent', entry));
+        const newerReviews = pageReviews.filter(review => new Date(review.date).getTime() >= sinceTime);
+        reviews.push(...newerReviews);
+
+        if (newerReviews.length < pageReviews.length || !nextToken) {
+          break;
+        }
+        token = nextToken;
+      }
+
+      return { reviews, sources };
+    } catch (error) {
+      Logger.error('Failed to fetch recent Google Play reviews', 'GOOGLE_PLAY', { app_id: appId, country }, error as Error);
+      throw error instanceof ApiError ? error : new BadGatewayError('Failed to fetch recent Google Play reviews', { cause: error });
+    }
+  }
+
+  /**
+   * Get app metadata and reviews in one call
+   */
+  async getAppWithReviews(appId: string, country: string = 'us', lang?: string): Promise<ReviewFetchResult & {
+    metadata: AppMetadata;
+  }> {
+    const [metadata, { reviews, sources }] = await Promise.all([
+      this.getAppMetadata(appId, country, lang),
+      this.getReviews(appId, country, lang)
+    ]);
+
+    return { metadata, reviews, sources };
+  }
+
+  /**
+   * Fetch one page of reviews for a sort order. `token` is the continuation
+   * token of the previous page, null for the first page.
+   */
+  private async fetchReviewsPage(
+    appId: string,
+    country: string,
+    lang: string | undefined,
+    sortBy: string,
+    token: string | null
+  ): Promise<{ entries: any[]; nextToken: string | null }> {
+    const rpcId = GooglePlayService.REVIEWS_RPC_ID;
+    const params = new URLSearchParams({ rpcids: rpcId, gl: country, hl: this.getLanguage(lang) });
+    const request = [
+      null,
+      null,
+      [2, GooglePlayService.SORT_ORDERS[sortBy], [GooglePlayService.REVIEWS_PER_PAGE, null, token], null, []],
+      [appId, 7]
+    ];
+    const body = new URLSearchParams({ 'f.req': JSON.stringify([[[rpcId, JSON.stringify(request), null, 'generic']]]) });
+
+    const response = await this.upstreamClient.fetch(`${GooglePlayService.BASE_URL}/_/PlayStoreUi/data/batchexecute?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8' },
+      body: body.toString()
+    });
+
+    if (!response.ok) {
+      throw UpstreamClient.responseError(response, 'Google Play reviews');
+    }
+
+    let data: any;
+    try {
+      // The response starts with )]}' to stop it from being evaluated as a script
+      const envelope = JSON.parse((await response.text()).replace(/^\)\]\}'/, ''));
+      const payload = this.at(envelope, [0, 2]);
+
+      // An app without reviews (in this language) has no payload
+      if (typeof payload !== 'string') {
+        return { entries: [], nextToken: null };
+      }
+
+      data = JSON.parse(payload);
+    } catch (error) {
+      throw new BadGatewayError('Invalid response format from Google Play reviews', { cause: error });
+    }
+
+    return {
+      entries: Array.isArray(data?.[0]) ? data[0] : [],
+      nextToken: this.at(data, [1, 1]) ?? null
+    };
+  }
+
+  /**
+   * Map a review entry of the reviews RPC. Google Play reviews have no title.
+   */
+  private mapReviewEntry(appId: string, country: string, sortBy: string, entry: any): AppReview {
+    const seconds = this.at(entry, [5, 0]);
+    const date = typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : '';
+    const author = this.at(entry, [1, 0]) || '';
+    const content = this.at(entry, [4]) || '';
+
+    return {
+      id: ReviewIds.create(appId, { upstreamId: this.at(entry, [0]), author, date, content }, 'google_play'),
+      rating: this.at(entry, [2]) || 0,
+      title: '',
+      content,
+      author,
+      date,
+      helpful_votes: this.at(entry, [6]) || 0,
+      version: this.at(entry, [10]) || undefined,
+      app_id: appId,
+      platform: 'google_play',
+      country,
+      review_types: [sortBy]
+    };
+  }
+
+  /**
+   * Parse the AF_initDataCallback blocks of a store page, keyed by their `ds:N` key
+   */
+  private extractPageData(html: string): Record<string, any> {
+    const blocks: Record<string, any> = {};
+    const pattern = /AF_initDataCallback\(\{key: '(ds:\d+)'[\s\S]*?data:([\s\S]*?), sideChannel: \{\}\}\);/g;
+
+    for (const match of html.matchAll(pattern)) {
+      try {
+        blocks[match[1]] = JSON.parse(match[2]);
+      } catch {
+        Logger.warn('Skipping unparseable Google Play page data', 'GOOGLE_PLAY', { key: match[1] });
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Value at a path of array indexes in the nested arrays Google Play returns,
+   * or undefined when any part of the path is missing
+   */
+  private at(value: any, path: number[]): any {
+    return path.reduce((current, index) => (Array.isArray(current) ? current[index] : undefined), value) ?? undefined;
+  }
+
+  /**
+   * Google Play's `hl` takes the language part of codes like de_de
+   */
+  private getLanguage(lang?: string): string {
+    return lang ? lang.split(/[_-]/)[0] : GooglePlayService.DEFAULT_LANGUAGE;
+  }
+
+  private getMaxReviews(): number {
+    const maxReviews = parseInt(this.env.MAX_REVIEWS_PER_APP);
+    return Number.isFinite(maxReviews) && maxReviews > 0 ? maxReviews : GooglePlayService.DEFAULT_MAX_REVIEWS;
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  AppHistoryPoint,
+  AppMetadataSnapshot,
+  AppMetadata,
+  AppVersionRelease,
+  Env,
+  ReviewSource
+} from '../types';
+import { MetadataSnapshotRepository } from '../storage/metadata-snapshot-repository';
+import { Storage } from '../storage/storage';
+import { Logger } from '../utils/logger';
+import { ReviewFilters } from '../utils/review-filters';
+
+/**
+ * Records a snapshot of every upstream metadata fetch and turns the stored
+ * snapshots into rating and rating-count time series. The store is opened on
+ * first use so that requests which never touch metadata do not load it.
+ */
+export class MetadataHistoryService {
+  constructor(private env: Env, private repository?: Promise<MetadataSnapshotRepository>) {}
+
+  /**
+   * Store a snapshot of freshly fetched metadata. Failures are logged and
+   * swallowed so that a storage problem never fails the metadata request.
+   */
+  async record(metadata: AppMetadata, source: ReviewSource): Promise<void> {
+    try {
+      const repository = await this.getRepository();
+      await repository.saveSnapshot({
+        app_id: metadata.app_id,
+        country: metadata.country ?? 'us',
+        captured_at: new Date().toISOString(),
+        source,
+        rating: metadata.rating,
+        rating_count: metadata.rating_count,
+        reviews_count: metadata.reviews_count,
+        version: metadata.version,
+        current_version_release_date: metadata.current_version_release_date,
+        metadata
+      });
+    } catch (error) {
+      Logger.warn('Failed to record metadata snapshot', 'METADATA_HISTORY', {
+        app_id: metadata.app_id,
+        error: (error as Error)?.message
+      });
+    }
+  }
+
+  /**
+   * Snapshots captured within the range, oldest first. A plain `until` date
+   * (YYYY-MM-DD) covers the whole day, as in the review filters.
+   */
+  async getSnapshots(appId: string, country: string, since?: string, until?: string): Promise<AppMetadataSnapshot[]> {
+    const repository = await this.getRepository();
+    return repository.getSnapshots(appId, country, {
+      since: since ? new Date(ReviewFilters.parseDate(since, false)).toISOString() : undefined,
+      until: until ? new Date(ReviewFilters.parseDate(until, true)).toISOString() : undefined
+    });
+  }
+
+  static toSeries(snapshots: AppMetadataSnapshot[], field: 'rating' | 'rating_count'): AppHistoryPoint[] {
+    return snapshots.map(snapshot => ({
+      captured_at: snapshot.captured_at,
+      value: snapshot[field],
+      version: snapshot.version
+    }));
+  }
+
+  /**
+   * Versions seen across the snapshots, in the order they first appeared
+   */
+  static toReleases(snapshots: AppMetadataSnapshot[]): AppVersionRelease[] {
+    const releases = new Map<string, AppVersionRelease>();
+
+    for (const snapshot of snapshots) {
+      if (snapshot.version && !releases.has(snapshot.version)) {
+        releases.set(snapshot.version, {
+          version: snapshot.version,
+          release_date: snapshot.current_version_release_date,
+          first_seen: snapshot.captured_at
+        });
+      }
+    }
+
+    return Array.from(releases.values());
+  }
+
+  private getRepository(): Promise<MetadataSnapshotRepository> {
+    this.repository = this.repository ?? Storage.getMetadataSnapshotRepository(this.env);
+    return this.repository;
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Env } from '../types';
+import { ApiKeyAuth } from './api-key-auth';
+import { RateLimitStore, defaultRateLimitStore } from '../utils/rate-limit-store';
+import { ErrorHandler } from '../utils/error-handler';
+import { Logger } from '../utils/logger';
+import { getNumericEnv } from '../utils/env';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset_at: number; // Epoch milliseconds
+  retry_after_seconds: number;
+}
+
+/**
+ * Per-client rate limiter using a sliding window counter: the request count of
+ * the previous fixed window is weighted by how much of it still overlaps the
+ * sliding window and added to the count of the current window.
+ */
+export class RateLimiter {
+  private static readonly WINDOW_MS = 60_000;
+  private static readonly DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+  private limit: number;
+
+  constructor(
+    env: Env,
+    private store: RateLimitStore = defaultRateLimitStore,
+    private auth: ApiKeyAuth = new ApiKeyAuth(env)
+  ) {
+    this.limit = getNumericEnv(env.RATE_LIMIT_REQUESTS_PER_MINUTE, RateLimiter.DEFAULT_REQUESTS_PER_MINUTE);
+  }
+
+  /**
+   * Apply the rate limit to a request, returning 429 when the client is over
+   * its limit and adding X-RateLimit-* headers to the response otherwise. A
+   * request that fans out upstream (e.g. several storefronts) counts `cost` times.
+   */
+  async handle(request: NextRequest, next: () => Promise<NextResponse>, cost: number = 1): Promise<NextResponse> {
+    if (this.limit <= 0) {
+      return next();
+    }
+
+    const clientKey = await this.getClientKey(request);
+    const result = await this.check(clientKey, Date.now(), cost);
+
+    if (!result.allowed) {
+      Logger.warn('Rate limit exceeded', 'RATE_LIMITER', { client: clientKey, limit: result.limit });
+      const errorResponse = ErrorHandler.createErrorResponse(
+        'RATE_LIMITED',
+        'Too Many Requests',
+        `Rate limit of ${result.limit} requests per minute exceeded`
+      );
+      const response = NextResponse.json(errorResponse, { status: 429 });
+      response.headers.set('Retry-After', String(result.retry_after_seconds));
+      return this.applyHeaders(response, result);
+    }
+
+    return this.applyHeaders(await next(), result);
+  }
+
+  /**
+   * Record a request of the given cost for the client if it is within the limit
+   */
+  async check(clientKey: string, now: number = Date.now(), cost: number = 1): Promise<RateLimitResult> {
+    const windowMs = RateLimiter.WINDOW_MS;
+    const windowIndex = Math.floor(now / windowMs);
+    const windowEnd = (windowIndex + 1) * windowMs;
+    const elapsedFraction = (now % windowMs) / windowMs;
+    const currentKey = `ratelimit:${clientKey}:${windowIndex}`;
+    const previousKey = `ratelimit:${clientKey}:${windowIndex - 1}`;
+    // Counters must outlive the following window, where they are read as the previous window
+    const ttlSeconds = Math.ceil((windowMs * 2) / 1000);
+
+    const [previousCount, currentCount] = await Promise.all([
+      this.store.get(previousKey),
+      this.store.get(currentKey)
+    ]);
+    const weightedPrevious = previousCount * (1 - elapsedFraction);
+    const estimated = weightedPrevious + currentCount;
+
+    if (estimated + cost > this.limit) {
+      const retryAfterMs = currentCount + cost > this.limit || previousCount === 0
+        ? windowEnd - now
+        : ((estimated + cost - this.limit) / previousCount) * windowMs;
+      const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+
+      return {
+        allowed: false,
+        limit: this.limit,
+        remaining: 0,
+        reset_at: now + retryAfterSeconds * 1000,
+        retry_after_seconds: retryAfterSeconds
+      };
+    }
+
+    const newCount = await this.store.increment(currentKey, ttlSeconds, cost);
+
+    return {
+      allowed: true,
+      limit: this.limit,
+      remaining: Math.max(0, Math.floor(this.limit - weightedPrevious - newCount)),
+      reset_at: windowEnd,
+      retry_after_seconds: 0
+    };
+  }
+
+  /**
+   * Identify the client by its API key when the key is valid, otherwise by IP
+   * address. The limiter runs before authentication, so an unknown key must not
+   * get a bucket of its own: rotating made-up keys would bypass the limit.
+   */
+  async getClientKey(request: NextRequest): Promise<string> {
+    const { key } = await this.auth.authenticate(request);
+    return key ? `key:${key.id}` : RateLimiter.getClientIp(request);
+  }
+
+  private static getClientIp(request: NextRequest): string {
+    const forwardedFor = request.headers.get('x-forwarded-for');
+    const ip = forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip') || request.ip || 'unknown';
+    return `ip:${ip}`;
+  }
+
+  private applyHeaders(response: NextResponse, result: RateLimitResult): NextResponse {
+    response.headers.set('X-RateLimit-Limit', String(result.limit));
+    response.headers.set('X-RateLimit-Remaining', String(result.remaining));
+    response.headers.set('X-RateLimit-Reset', String(Math.ceil(result.reset_at / 1000)));
+    return response;
+  }
+}
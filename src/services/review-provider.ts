@@ -0,0 +1,32 @@
+import { AppMetadata, ReviewFetchResult, ReviewSource } from '../types';
+
+/**
+ * Common shape of the upstream services that can supply app metadata and reviews
+ */
+export interface ReviewProvider {
+  readonly source: ReviewSource;
+
+  /**
+   * Metadata as listed in a storefront, optionally localized to `lang`
+   * (e.g. de_de). Rejects with AppNotFoundError when the app is not sold there.
+   */
+  getAppMetadata(appId: string, country?: string, lang?: string): Promise<AppMetadata>;
+
+  /**
+   * All available reviews, with the status of every upstream feed request.
+   * Failed feeds are reported in `sources` rather than rejecting, so the
+   * reviews from the feeds that succeeded are kept. `lang` selects the review
+   * language for stores that serve reviews per language (Google Play).
+   */
+  getReviews(appId: string, country?: string, lang?: string): Promise<ReviewFetchResult>;
+
+  /**
+   * Reviews posted at or after `since`, newest first, with the status of every
+   * upstream feed request. A null `since` returns every available review.
+   */
+  getReviewsSince(appId: string, country: string, since: string | null, lang?: string): Promise<ReviewFetchResult>;
+
+  getAppWithReviews(appId: string, country?: string, lang?: string): Promise<ReviewFetchResult & {
+    metadata: AppMetadata;
+  }>;
+}
@@ -0,0 +1,358 @@
+import {
+  AppMetadata,
+  AppReview,
+  AppSearchRequest,
+  CountryReviewStats,
+  Env,
+  Platform,
+  ReviewFeedStatus,
+  ReviewFetchOptions,
+  ReviewFetchResult,
+  ReviewSource,
+  ReviewSourceOption
+} from '../types';
+import { ReviewProvider } from './review-provider';
+import { AppStoreService } from './app-store-service';
+import { ASOMarketService } from './aso-market-service';
+import { GooglePlayService } from './google-play-service';
+import { CacheService, CachePolicy } from './cache-service';
+import { MetadataHistoryService } from './metadata-history-service';
+import { CacheStore } from '../utils/cache-store';
+import { Logger } from '../utils/logger';
+import { Concurrency } from '../utils/concurrency';
+import { getNumericEnv } from '../utils/env';
+import { Validators } from '../utils/validators';
+import {
+  BadGatewayError,
+  NotFoundError,
+  UpstreamRateLimitError,
+  UpstreamTimeoutError
+} from '../utils/errors';
+
+/**
+ * Selects review providers for a request by the app's platform, and for App
+ * Store apps falls back from the primary provider (iTunes) to the secondary one
+ * (ASO Market) in `auto` mode. Provider responses are cached per source, app
+ * and storefront, and every upstream metadata fetch is recorded as a history
+ * snapshot. App Store searches and bundle ID lookups go through iTunes.
+ */
+export class ReviewSourceService {
+  private static readonly COUNTRY_CONCURRENCY = 5;
+  // Providers tried in `auto` mode, in order
+  private static readonly PLATFORM_PROVIDERS: Record<Platform, ReviewSource[]> = {
+    app_store: ['itunes', 'aso_market'],
+    google_play: ['google_play']
+  };
+  private static readonly DEFAULT_METADATA_TTL_SECONDS = 3600;
+  private static readonly DEFAULT_REVIEWS_TTL_SECONDS = 600;
+  private static readonly DEFAULT_STALE_SECONDS = 3600;
+
+  private providers: Record<ReviewSource, ReviewProvider>;
+  private appStoreService: AppStoreService;
+  private cache: CacheService;
+  private metadataCachePolicy: CachePolicy;
+  private reviewsCachePolicy: CachePolicy;
+
+  constructor(
+    private env: Env,
+    cacheStore?: CacheStore,
+    private metadataHistory: MetadataHistoryService = new MetadataHistoryService(env)
+  ) {
+    this.appStoreService = new AppStoreService(env);
+    this.providers = {
+      itunes: this.appStoreService,
+      aso_market: new ASOMarketService(env),
+      google_play: new GooglePlayService(env)
+    };
+    this.cache = new CacheService(cacheStore);
+
+    const staleSeconds = getNumericEnv(env.CACHE_STALE_SECONDS, ReviewSourceService.DEFAULT_STALE_SECONDS);
+    this.metadataCachePolicy = {
+      ttlSeconds: getNumericEnv(env.CACHE_METADATA_TTL_SECONDS, ReviewSourceService.DEFAULT_METADATA_TTL_SECONDS),
+      staleSeconds
+    };
+    this.reviewsCachePolicy = {
+      ttlSeconds: getNumericEnv(env.CACHE_REVIEWS_TTL_SECONDS, ReviewSourceService.DEFAULT_REVIEWS_TTL_SECONDS),
+      staleSeconds
+    };
+  }
+
+  /**
+   * Cache policy applied to review lists, used for HTTP Cache-Control headers
+   */
+  getReviewsCachePolicy(): CachePolicy {
+    return this.reviewsCachePolicy;
+  }
+
+  /**
+   * Numeric App Store ID of the app with a bundle ID, looked up in a
+   * storefront. The mapping is cached like metadata.
+   */
+  async resolveBundleId(bundleId: string, country: string = 'us', options: ReviewFetchOptions = {}): Promise<string> {
+    return this.cache.getOrLoad(
+      `bundle:${bundleId}:${country}`,
+      this.metadataCachePolicy,
+      async () => (await this.appStoreService.getAppMetadataByBundleId(bundleId, country)).app_id,
+      { refresh: options.refresh }
+    );
+  }
+
+  /**
+   * Search the App Store. Results are cached like metadata.
+   */
+  async searchApps(request: AppSearchRequest): Promise<AppMetadata[]> {
+    const country = request.country ?? 'us';
+    return this.cache.getOrLoad(
+      `search:${country}:${request.entity ?? ''}:${request.limit ?? ''}:${request.lang ?? ''}:${request.term.toLowerCase()}`,
+      this.metadataCachePolicy,
+      () => this.appStoreService.searchApps(request.term, country, request),
+      { refresh: request.refresh }
+    );
+  }
+
+  async getAppMetadata(appId: string, country: string = 'us', options: ReviewFetchOptions = {}): Promise<{
+    metadata: AppMetadata;
+    source: ReviewSource;
+  }> {
+    const { result, source } = await this.withFallback(
+      options.source,
+      appId,
+      provider => this.getCachedMetadata(provider, appId, country, options),
+      () => false
+    );
+    return { metadata: result, source };
+  }
+
+  /**
+   * Reviews with the status of every upstream feed request. `sources` covers
+   * every provider tried, so feeds that failed before a fallback are reported.
+   */
+  async getReviews(appId: string, country: string = 'us', options: ReviewFetchOptions = {}): Promise<ReviewFetchResult & {
+    source: ReviewSource;
+  }> {
+    const sources: ReviewFeedStatus[] = [];
+    const { result, source } = await this.withFallback(
+      options.source,
+      appId,
+      async provider => {
+        const fetched = await this.getCachedReviews(provider, appId, country, options);
+        sources.push(...fetched.sources);
+        return fetched;
+      },
+      ({ reviews }) => reviews.length === 0
+    );
+    return { reviews: result.reviews, sources, source };
+  }
+
+  /**
+   * Reviews posted at or after `since`, uncached. With a `since` date an empty
+   * result is a valid answer (nothing new), so only provider failures trigger
+   * the fallback. As for getReviews, `sources` covers every provider tried.
+   */
+  async getReviewsSince(appId: string, country: string, since: string | null, options: ReviewFetchOptions = {}): Promise<ReviewFetchResult & {
+    source: ReviewSource;
+  }> {
+    const sources: ReviewFeedStatus[] = [];
+    const { result, source } = await this.withFallback(
+      options.source,
+      appId,
+      async provider => {
+        const fetched = await provider.getReviewsSince(appId, country, since, options.lang);
+        sources.push(...fetched.sources);
+        return fetched;
+      },
+      ({ reviews }) => since === null && reviews.length === 0
+    );
+    return { reviews: result.reviews, sources, source };
+  }
+
+  async getAppWithReviews(appId: string, country: string = 'us', options: ReviewFetchOptions = {}): Promise<ReviewFetchResult & {
+    metadata: AppMetadata;
+    source: ReviewSource;
+  }> {
+    const sources: ReviewFeedStatus[] = [];
+    const { result, source } = await this.withFallback(
+      options.source,
+      appId,
+      async provider => {
+        // Fetch metadata and reviews in parallel
+        const [metadata, fetched] = await Promise.all([
+          this.getCachedMetadata(provider, appId, country, options),
+          this.getCachedReviews(provider, appId, country, options)
+        ]);
+        sources.push(...fetched.sources);
+        return { metadata, reviews: fetched.reviews };
+      },
+      ({ reviews }) => reviews.length === 0
+    );
+    return { ...result, sources, source };
+  }
+
+  /**
+   * Get reviews from several storefronts, fetched in parallel with bounded concurrency.
+   * Reviews are tagged with their storefront and de-duplicated across storefronts
+   * (the first storefront a review was seen in wins).
+   */
+  async getMultiCountryReviews(appId: string, countries: string[], options: ReviewFetchOptions = {}): Promise<ReviewFetchResult & {
+    country_breakdown: CountryReviewStats[];
+    source: ReviewSource | 'mixed';
+  }> {
+    Logger.info('Fetching reviews from multiple storefronts', 'REVIEW_SOURCE', {
+      app_id: appId,
+      countries,
+      source: options.source
+    });
+
+    const resultsByCountry = await Concurrency.map(countries, ReviewSourceService.COUNTRY_CONCURRENCY, country =>
+      this.getReviews(appId, country, options)
+    );
+
+    const reviewMap = new Map<string, AppReview>();
+    const countryBreakdown: CountryReviewStats[] = countries.map((country, index) => {
+      const { reviews, source: countrySource } = resultsByCountry[index];
+
+      for (const review of reviews) {
+        if (!reviewMap.has(review.id)) {
+          reviewMap.set(review.id, { ...review, country: review.country || country });
+        }
+      }
+
+      const ratingSum = reviews.reduce((sum, review) => sum + review.rating, 0);
+      return {
+        country,
+        total_reviews: reviews.length,
+        average_rating: reviews.length > 0 ? Math.round((ratingSum / reviews.length) * 100) / 100 : 0,
+        source: countrySource
+      };
+    });
+
+    const reviews = Array.from(reviewMap.values())
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const usedSources = new Set(resultsByCountry.map(result => result.source));
+
+    Logger.info('Successfully fetched multi-storefront reviews', 'REVIEW_SOURCE', {
+      app_id: appId,
+      countries_count: countries.length,
+      reviews_count: reviews.length
+    });
+
+    return {
+      reviews,
+      sources: resultsByCountry.flatMap(result => result.sources),
+      country_breakdown: countryBreakdown,
+      source: usedSources.size === 1 ? Array.from(usedSources)[0] : 'mixed'
+    };
+  }
+
+  private getCachedMetadata(
+    provider: ReviewProvider,
+    appId: string,
+    country: string,
+    options: ReviewFetchOptions
+  ): Promise<AppMetadata> {
+    return this.cache.getOrLoad(
+      `metadata:${provider.source}:${appId}:${country}:${options.lang ?? ''}`,
+      this.metadataCachePolicy,
+      async () => {
+        const metadata = await provider.getAppMetadata(appId, country, options.lang);
+        await this.metadataHistory.record(metadata, provider.source);
+        return metadata;
+      },
+      { refresh: options.refresh }
+    );
+  }
+
+  private getCachedReviews(
+    provider: ReviewProvider,
+    appId: string,
+    country: string,
+    options: ReviewFetchOptions
+  ): Promise<ReviewFetchResult> {
+    return this.cache.getOrLoad(
+      `reviews:${provider.source}:${appId}:${country}:${options.lang ?? ''}:${this.env.MAX_REVIEWS_PER_APP}`,
+      this.reviewsCachePolicy,
+      () => provider.getReviews(appId, country, options.lang),
+      // Partial results are not cached, so the failed feeds are retried on the next request
+      { refresh: options.refresh, shouldCache: ({ sources }) => !ReviewSourceService.isPartial(sources) }
+    );
+  }
+
+  /**
+   * Whether any of the upstream feed requests failed, optionally only counting
+   * the feeds of one source (the one that served a result after a fallback)
+   */
+  static isPartial(sources: ReviewFeedStatus[], source?: ReviewSource): boolean {
+    return sources.some(feed => feed.status === 'failed' && (source === undefined || feed.source === source));
+  }
+
+  /**
+   * Reject with an upstream error when any feed failed, for callers that would
+   * rather fail than serve partial results. The first failure picks the error type.
+   */
+  static assertComplete(sources: ReviewFeedStatus[]): void {
+    const failed = sources.filter(feed => feed.status === 'failed');
+    if (failed.length === 0) {
+      return;
+    }
+
+    const message = `${failed.length} of ${sources.length} upstream review feeds failed: ${failed[0].error}`;
+    switch (failed[0].error_code) {
+      case 'UPSTREAM_TIMEOUT':
+        throw new UpstreamTimeoutError(message);
+      case 'UPSTREAM_RATE_LIMITED':
+        throw new UpstreamRateLimitError(message);
+      default:
+        throw new BadGatewayError(message);
+    }
+  }
+
+  /**
+   * Run `fetch` against the providers for the requested source in order. In `auto`
+   * mode the providers of the app's platform (detected from the app ID) are
+   * tried, the next one when one throws or returns an empty result.
+   * If every provider comes up empty the first empty result is returned; if they
+   * all fail the first error is rethrown. An app that is not found is final: the
+   * ASO Market API is not storefront-aware, so falling back could not fix it.
+   */
+  private async withFallback<T>(
+    source: ReviewSourceOption = 'auto',
+    appId: string,
+    fetch: (provider: ReviewProvider) => Promise<T>,
+    isEmpty: (result: T) => boolean
+  ): Promise<{ result: T; source: ReviewSource }> {
+    const providers = source === 'auto'
+      ? ReviewSourceService.PLATFORM_PROVIDERS[Validators.detectPlatform(appId)].map(name => this.providers[name])
+      : [this.providers[source]];
+
+    let emptyResult: { result: T; source: ReviewSource } | undefined;
+    let firstError: unknown;
+
+    for (const provider of providers) {
+      try {
+        const result = await fetch(provider);
+        if (!isEmpty(result)) {
+          return { result, source: provider.source };
+        }
+
+        Logger.warn('Review provider returned no results', 'REVIEW_SOURCE', { app_id: appId, source: provider.source });
+        emptyResult = emptyResult ?? { result, source: provider.source };
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          throw error;
+        }
+        Logger.warn('Review provider failed', 'REVIEW_SOURCE', {
+          app_id: appId,
+          source: provider.source,
+          error: (error as Error)?.message
+        });
+        firstError = firstError ?? error;
+      }
+    }
+
+    if (emptyResult) {
+      return emptyResult;
+    }
+
+    throw firstError;
+  }
+}
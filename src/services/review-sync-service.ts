@@ -0,0 +1,147 @@
+import { AppReview, Env, ReviewFetchOptions, ReviewSource, ReviewSyncResult } from '../types';
+import { ReviewSourceService } from './review-source-service';
+import { ReviewRepository } from '../storage/review-repository';
+import { Storage } from '../storage/storage';
+import { Logger } from '../utils/logger';
+import { Concurrency } from '../utils/concurrency';
+
+/**
+ * Keeps the review store up to date. Each sync fetches only the reviews newer
+ * than the latest stored one (the first sync of an app/storefront fetches
+ * everything available) and upserts them, so reviews that drop out of the
+ * upstream feeds are kept. Unless a source is requested, later syncs stay with
+ * the source of the first one: iTunes and ASO Market number reviews
+ * differently, so a fallback would store every review a second time.
+ */
+export class ReviewSyncService {
+  private static readonly COUNTRY_CONCURRENCY = 5;
+
+  constructor(
+    private env: Env,
+    private reviewSourceService: ReviewSourceService,
+    private repository: Promise<ReviewRepository> = Storage.getReviewRepository(env)
+  ) {}
+
+  async sync(appId: string, country: string, options: ReviewFetchOptions = {}): Promise<ReviewSyncResult> {
+    const syncedAt = new Date().toISOString();
+
+    try {
+      const repository = await this.repository;
+      const state = await repository.getSyncState(appId, country);
+      const since = state?.latest_review_date ?? null;
+
+      Logger.info('Syncing reviews', 'REVIEW_SYNC', { app_id: appId, country, since });
+
+      const fetchOptions = state?.source && (options.source ?? 'auto') === 'auto'
+        ? { ...options, source: state.source }
+        : options;
+      const { reviews, sources, source } = await this.reviewSourceService.getReviewsSince(appId, country, since, fetchOptions);
+      const { inserted, updated } = await repository.upsertReviews(appId, country, reviews, syncedAt);
+
+      // Reviews from a failed feed would be skipped for good if the cursor moved past them
+      if (ReviewSourceService.isPartial(sources, source)) {
+        Logger.warn('Review sync incomplete, keeping the sync state', 'REVIEW_SYNC', { app_id: appId, country, source });
+        return {
+          app_id: appId,
+          country,
+          success: false,
+          incremental: since !== null,
+          source,
+          fetched: reviews.length,
+          inserted,
+          updated,
+          latest_review_date: since,
+          synced_at: syncedAt,
+          error: 'Some review feeds failed; the next sync fetches them again'
+        };
+      }
+
+      const latestReviewDate = this.getLatestDate(reviews, since);
+
+      await repository.saveSyncState({
+        app_id: appId,
+        country,
+        last_synced_at: syncedAt,
+        latest_review_date: latestReviewDate,
+        source
+      });
+
+      Logger.info('Successfully synced reviews', 'REVIEW_SYNC', { app_id: appId, country, inserted, updated });
+
+      return {
+        app_id: appId,
+        country,
+        success: true,
+        incremental: since !== null,
+        source,
+        fetched: reviews.length,
+        inserted,
+        updated,
+        latest_review_date: latestReviewDate,
+        synced_at: syncedAt
+      };
+    } catch (error) {
+      Logger.error('Failed to sync reviews', 'REVIEW_SYNC', { app_id: appId, country }, error as Error);
+      return {
+        app_id: appId,
+        country,
+        success: false,
+        incremental: false,
+        fetched: 0,
+        inserted: 0,
+        updated: 0,
+        latest_review_date: null,
+        synced_at: syncedAt,
+        error: (error as Error)?.message || 'Unknown error'
+      };
+    }
+  }
+
+  async syncCountries(appId: string, countries: string[], options: ReviewFetchOptions = {}): Promise<ReviewSyncResult[]> {
+    return Concurrency.map(countries, ReviewSyncService.COUNTRY_CONCURRENCY, country => this.sync(appId, country, options));
+  }
+
+  /**
+   * Sync the storefronts, then return every stored review for them (most
+   * recent first, de-duplicated across storefronts). A failed sync still
+   * serves what was stored before.
+   */
+  async getHistory(appId: string, countries: string[], options: ReviewFetchOptions = {}): Promise<{
+    reviews: AppReview[];
+    sync: ReviewSyncResult[];
+    source?: ReviewSource | 'mixed';
+  }> {
+    const sync = await this.syncCountries(appId, countries, options);
+    const repository = await this.repository;
+    const reviewMap = new Map<string, AppReview>();
+
+    for (const country of countries) {
+      for (const review of await repository.getReviews(appId, country)) {
+        if (!reviewMap.has(review.id)) {
+          reviewMap.set(review.id, review);
+        }
+      }
+    }
+
+    const reviews = Array.from(reviewMap.values())
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const sources = new Set(sync.filter(result => result.source).map(result => result.source!));
+
+    return {
+      reviews,
+      sync,
+      source: sources.size === 0 ? undefined : sources.size === 1 ? Array.from(sources)[0] : 'mixed'
+    };
+  }
+
+  private getLatestDate(reviews: AppReview[], previous: string | null): string | null {
+    let latest = previous;
+    for (const review of reviews) {
+      const time = new Date(review.date).getTime();
+      if (!Number.isNaN(time) && (latest === null || time > new Date(latest).getTime())) {
+        latest = review.date;
+      }
+    }
+    return latest;
+  }
+}
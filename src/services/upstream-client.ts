@@ -0,0 +1,161 @@
+import { Env } from '../types';
+import { CircuitBreaker } from '../utils/circuit-breaker';
+import { ErrorHandler } from '../utils/error-handler';
+import { Logger } from '../utils/logger';
+import { getNumericEnv } from '../utils/env';
+import { FetchFunction, UpstreamFixtures } from '../utils/upstream-fixtures';
+import { ApiError, BadGatewayError, UpstreamRateLimitError, UpstreamTimeoutError } from '../utils/errors';
+
+/**
+ * HTTP client shared by the upstream services. Transient failures (network
+ * errors, timeouts, 429 and 5xx responses) are retried with exponential backoff
+ * and full jitter, honouring Retry-After, and every upstream host has its own
+ * circuit breaker so that requests fail fast while the host is down. Failures
+ * surface as typed errors (UpstreamTimeoutError, BadGatewayError).
+ *
+ * Requests go through `fetchImpl`, which defaults to the fetch layer selected
+ * by UPSTREAM_FIXTURES_MODE (see UpstreamFixtures).
+ */
+export class UpstreamClient {
+  private static readonly DEFAULT_MAX_RETRIES = 2;
+  private static readonly BASE_DELAY_MS = 250;
+  private static readonly MAX_DELAY_MS = 5000;
+  private static readonly DEFAULT_FAILURE_THRESHOLD = 5;
+  private static readonly DEFAULT_COOLDOWN_MS = 30_000;
+
+  private timeoutMs: number;
+  private maxRetries: number;
+  private failureThreshold: number;
+  private cooldownMs: number;
+
+  constructor(env: Env, private fetchImpl: FetchFunction = UpstreamFixtures.fetchFor(env)) {
+    this.timeoutMs = getNumericEnv(env.REQUEST_TIMEOUT_MS, 10000);
+    this.maxRetries = getNumericEnv(env.UPSTREAM_MAX_RETRIES, UpstreamClient.DEFAULT_MAX_RETRIES);
+    this.failureThreshold = getNumericEnv(
+      env.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+      UpstreamClient.DEFAULT_FAILURE_THRESHOLD
+    );
+    this.cooldownMs = getNumericEnv(env.CIRCUIT_BREAKER_COOLDOWN_MS, UpstreamClient.DEFAULT_COOLDOWN_MS);
+  }
+
+  /**
+   * Fetch a URL with retries. Resolves with the final response (which may still be
+   * a non-2xx status, see responseError) or rejects with a typed error for the
+   * last network failure.
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const host = new URL(url).host;
+    const breaker = CircuitBreaker.forHost(host, {
+      failureThreshold: this.failureThreshold,
+      cooldownMs: this.cooldownMs
+    });
+
+    if (!breaker.canRequest()) {
+      throw new BadGatewayError(`Circuit breaker open for ${host}`);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= this.maxRetries;
+
+      try {
+        const response = await this.fetchImpl(url, {
+          ...init,
+          signal: AbortSignal.timeout(this.timeoutMs)
+        });
+
+        if (!this.isRetryableStatus(response.status)) {
+          breaker.recordSuccess();
+          return response;
+        }
+
+        const delayMs = this.getRetryDelay(attempt, response.headers.get('retry-after'));
+        if (isLastAttempt || delayMs === null) {
+          breaker.recordFailure();
+          return response;
+        }
+
+        Logger.warn('Retrying upstream request', 'UPSTREAM', { host, attempt: attempt + 1, status: response.status, delay_ms: delayMs });
+        await this.sleep(delayMs);
+      } catch (error) {
+        if (isLastAttempt || !this.isRetryableError(error)) {
+          breaker.recordFailure();
+          throw this.toUpstreamError(error, host);
+        }
+
+        const delayMs = this.getRetryDelay(attempt, null)!;
+        Logger.warn('Retrying upstream request', 'UPSTREAM', {
+          host,
+          attempt: attempt + 1,
+          error: (error as Error)?.message,
+          delay_ms: delayMs
+        });
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Typed error for a non-2xx upstream response
+   */
+  static responseError(response: Response, upstream: string): ApiError {
+    const message = `${upstream} returned ${response.status}: ${response.statusText}`;
+
+    if (response.status === 429) {
+      return new UpstreamRateLimitError(message);
+    }
+    if (response.status === 408 || response.status === 504) {
+      return new UpstreamTimeoutError(message);
+    }
+    return new BadGatewayError(message);
+  }
+
+  private toUpstreamError(error: any, host: string): ApiError {
+    if (error?.name === 'TimeoutError') {
+      return new UpstreamTimeoutError(`Request to ${host} timed out after ${this.timeoutMs} ms`, { cause: error });
+    }
+    return new BadGatewayError(`Request to ${host} failed: ${error?.message ?? 'unknown error'}`, { cause: error });
+  }
+
+  private isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+  }
+
+  private isRetryableError(error: any): boolean {
+    return error?.name === 'TimeoutError' ||
+           ErrorHandler.isNetworkError(error) ||
+           ErrorHandler.isRateLimitError(error);
+  }
+
+  /**
+   * Exponential backoff with full jitter. A Retry-After header sets the minimum
+   * delay; if it asks for longer than MAX_DELAY_MS the request is not retried (null).
+   */
+  private getRetryDelay(attempt: number, retryAfter: string | null): number | null {
+    const backoffMs = Math.random() * Math.min(UpstreamClient.MAX_DELAY_MS, UpstreamClient.BASE_DELAY_MS * 2 ** attempt);
+    const retryAfterMs = this.parseRetryAfter(retryAfter);
+
+    if (retryAfterMs === null) {
+      return Math.round(backoffMs);
+    }
+
+    return retryAfterMs > UpstreamClient.MAX_DELAY_MS ? null : Math.max(retryAfterMs, Math.round(backoffMs));
+  }
+
+  private parseRetryAfter(retryAfter: string | null): number | null {
+    if (!retryAfter) {
+      return null;
+    }
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
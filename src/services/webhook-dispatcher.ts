@@ -0,0 +1,170 @@
+import { createHmac, randomUUID } from 'crypto';
+import { AppReview, Env, WebhookDelivery, WebhookReviewsPayload, WebhookSubscription } from '../types';
+import { Logger } from '../utils/logger';
+import { getNumericEnv } from '../utils/env';
+import { Validators } from '../utils/validators';
+import { NetworkAddress } from '../utils/network-address';
+
+/**
+ * Sends signed webhook deliveries. The body is signed with the subscription
+ * secret as HMAC-SHA256 over `{timestamp}.{body}`, sent in
+ * `X-Webhook-Signature: sha256={hex}` alongside `X-Webhook-Timestamp`, so
+ * receivers can verify the sender and reject replays. Network errors, 429 and
+ * 5xx responses are retried with exponential backoff.
+ *
+ * The URL is checked before every attempt: it must pass the subscription
+ * validation and its host must resolve only to public addresses. Redirects are
+ * not followed, so a receiver cannot bounce deliveries to an internal address.
+ */
+export class WebhookDispatcher {
+  static readonly MAX_ATTEMPTS = 3;
+  private static readonly BASE_DELAY_MS = 500;
+  // Slack rejects messages with more than 50 blocks
+  private static readonly MAX_SLACK_REVIEWS = 20;
+  private static readonly MAX_SLACK_CONTENT_LENGTH = 500;
+
+  private timeoutMs: number;
+
+  constructor(env: Env) {
+    this.timeoutMs = getNumericEnv(env.REQUEST_TIMEOUT_MS, 10000);
+  }
+
+  static sign(secret: string, timestamp: string, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  async deliver(subscription: WebhookSubscription, country: string, reviews: AppReview[]): Promise<WebhookDelivery> {
+    const deliveryId = randomUUID();
+    const payload: WebhookReviewsPayload = {
+      event: 'reviews.new',
+      subscription_id: subscription.id,
+      app_id: subscription.app_id,
+      country,
+      reviews,
+      sent_at: new Date().toISOString()
+    };
+    const body = JSON.stringify(subscription.format === 'slack' ? this.toSlackMessage(payload) : payload);
+    const delivery: WebhookDelivery = {
+      id: deliveryId,
+      subscription_id: subscription.id,
+      app_id: subscription.app_id,
+      country,
+      review_ids: reviews.map(review => review.id),
+      success: false,
+      attempts: 0,
+      created_at: payload.sent_at
+    };
+
+    while (delivery.attempts < WebhookDispatcher.MAX_ATTEMPTS) {
+      delivery.attempts++;
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      let retryable: boolean;
+
+      try {
+        await this.assertDeliverable(subscription.url);
+      } catch (error) {
+        delivery.status_code = undefined;
+        delivery.error = `Webhook URL rejected: ${(error as Error)?.message || 'Unknown error'}`;
+        break;
+      }
+
+      try {
+        const response = await fetch(subscription.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'reviews-ratings-api/1.0.0',
+            'X-Webhook-Id': deliveryId,
+            'X-Webhook-Event': payload.event,
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': WebhookDispatcher.sign(subscription.secret ?? '', timestamp, body)
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.timeoutMs)
+        });
+
+        delivery.status_code = response.status;
+        if (response.ok) {
+          delivery.success = true;
+          delivery.error = undefined;
+          break;
+        }
+
+        delivery.error = `Webhook endpoint returned ${response.status}: ${response.statusText}`;
+        retryable = response.status === 429 || response.status >= 500;
+      } catch (error) {
+        delivery.status_code = undefined;
+        delivery.error = (error as Error)?.message || 'Unknown error';
+        retryable = true;
+      }
+
+      if (!retryable || delivery.attempts >= WebhookDispatcher.MAX_ATTEMPTS) {
+        break;
+      }
+
+      Logger.warn('Retrying webhook delivery', 'WEBHOOKS', {
+        subscription_id: subscription.id,
+        attempt: delivery.attempts,
+        error: delivery.error
+      });
+      await this.sleep(WebhookDispatcher.BASE_DELAY_MS * 2 ** (delivery.attempts - 1));
+    }
+
+    if (delivery.success) {
+      Logger.info('Delivered webhook', 'WEBHOOKS', { subscription_id: subscription.id, reviews_count: reviews.length });
+    } else {
+      Logger.error('Failed to deliver webhook', 'WEBHOOKS', {
+        subscription_id: subscription.id,
+        attempts: delivery.attempts,
+        error: delivery.error
+      });
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Reject URLs that are not https on a public host, after resolving the host
+   */
+  private async assertDeliverable(url: string): Promise<void> {
+    if (!Validators.isValidWebhookUrl(url)) {
+      throw new Error('url must be an https URL on a public host');
+    }
+    await NetworkAddress.assertPublicHost(new URL(url).hostname);
+  }
+
+  /**
+   * Slack incoming-webhook message: a summary line plus one block per review
+   */
+  private toSlackMessage(payload: WebhookReviewsPayload): Record<string, unknown> {
+    const count = payload.reviews.length;
+    const text = `${count} new review${count === 1 ? '' : 's'} for app ${payload.app_id} (${payload.country.toUpperCase()})`;
+    const reviewBlocks = payload.reviews.slice(0, WebhookDispatcher.MAX_SLACK_REVIEWS).map(review => {
+      const stars = '★'.repeat(review.rating) + '☆'.repeat(Math.max(0, 5 - review.rating));
+      const content = review.content.length > WebhookDispatcher.MAX_SLACK_CONTENT_LENGTH
+        ? `${review.content.slice(0, WebhookDispatcher.MAX_SLACK_CONTENT_LENGTH)}…`
+        : review.content;
+
+      return {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${stars} *${review.title || 'Untitled'}*\n${content}\n_${review.author}, ${review.date}_`
+        }
+      };
+    });
+
+    return {
+      text,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: `*${text}*` } },
+        ...reviewBlocks
+      ]
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
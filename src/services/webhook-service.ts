@@ -0,0 +1,286 @@
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  AppReview,
+  Env,
+  ReviewFetchResult,
+  ReviewSource,
+  WebhookDelivery,
+  WebhookPollResult,
+  WebhookSubscription,
+  WebhookSubscriptionRequest
+} from '../types';
+import { ReviewSourceService } from './review-source-service';
+import { WebhookDispatcher } from './webhook-dispatcher';
+import { WebhookRepository } from '../storage/webhook-repository';
+import { Storage } from '../storage/storage';
+import { Validators } from '../utils/validators';
+import { Logger } from '../utils/logger';
+import { Concurrency } from '../utils/concurrency';
+
+/**
+ * Manages webhook subscriptions and polls for new reviews. Each poll diffs the
+ * freshly fetched reviews of a subscription's storefronts against the IDs it has
+ * already seen and delivers the new ones that match its rating threshold and
+ * keywords. The first poll of a storefront only records the current reviews, so
+ * subscribing does not flood the endpoint with old reviews. The same happens
+ * when a different source serves the storefront than on the last poll (e.g.
+ * after an iTunes to ASO Market fallback), as the sources number reviews
+ * differently. A poll in which any feed failed is skipped, and the reviews of
+ * a failed delivery stay unseen so that the next poll delivers them again.
+ *
+ * Subscriptions belong to the API key that created them (`ownerKeyId`): every
+ * read, change and poll only sees the caller's own subscriptions. When API keys
+ * are not configured there is no owner and all subscriptions are shared.
+ */
+export class WebhookService {
+  static readonly DEFAULT_MAX_RATING = 2;
+  private static readonly POLL_CONCURRENCY = 4;
+
+  constructor(
+    private env: Env,
+    private reviewSourceService: ReviewSourceService,
+    private repository: Promise<WebhookRepository> = Storage.getWebhookRepository(env),
+    private dispatcher: WebhookDispatcher = new WebhookDispatcher(env)
+  ) {}
+
+  /**
+   * Create a subscription. The response is the only one that includes the signing secret.
+   */
+  async create(request: WebhookSubscriptionRequest, ownerKeyId?: string): Promise<WebhookSubscription> {
+    const now = new Date().toISOString();
+    const countries = Validators.parseCountries(request.country);
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      app_id: await this.resolveAppId(request, countries[0]),
+      countries,
+      max_rating: request.max_rating ?? WebhookService.DEFAULT_MAX_RATING,
+      keywords: this.parseKeywords(request.keywords),
+      url: request.url!,
+      format: request.format ?? 'json',
+      secret: randomBytes(32).toString('hex'),
+      owner_key_id: ownerKeyId,
+      active: request.active ?? true,
+      created_at: now,
+      updated_at: now
+    };
+
+    await (await this.repository).saveSubscription(subscription);
+    Logger.info('Created webhook subscription', 'WEBHOOKS', { subscription_id: subscription.id, app_id: subscription.app_id });
+
+    return { ...this.redact(subscription), secret: subscription.secret };
+  }
+
+  async list(ownerKeyId?: string): Promise<WebhookSubscription[]> {
+    const subscriptions = await (await this.repository).listSubscriptions(ownerKeyId ?? null);
+    return subscriptions.map(subscription => this.redact(subscription));
+  }
+
+  async get(id: string, ownerKeyId?: string): Promise<WebhookSubscription | null> {
+    const subscription = await this.getOwned(await this.repository, id, ownerKeyId);
+    return subscription ? this.redact(subscription) : null;
+  }
+
+  /**
+   * Apply the fields present in the request to a subscription
+   */
+  async update(id: string, request: WebhookSubscriptionRequest, ownerKeyId?: string): Promise<WebhookSubscription | null> {
+    const repository = await this.repository;
+    const existing = await this.getOwned(repository, id, ownerKeyId);
+    if (!existing) {
+      return null;
+    }
+
+    const countries = request.country !== undefined ? Validators.parseCountries(request.country) : existing.countries;
+    const subscription: WebhookSubscription = {
+      ...existing,
+      app_id: request.app_id !== undefined || request.bundle_id !== undefined
+        ? await this.resolveAppId(request, countries[0])
+        : existing.app_id,
+      countries,
+      max_rating: request.max_rating ?? existing.max_rating,
+      keywords: request.keywords !== undefined ? this.parseKeywords(request.keywords) : existing.keywords,
+      url: request.url ?? existing.url,
+      format: request.format ?? existing.format,
+      active: request.active ?? existing.active,
+      updated_at: new Date().toISOString()
+    };
+
+    await repository.saveSubscription(subscription);
+    Logger.info('Updated webhook subscription', 'WEBHOOKS', { subscription_id: id });
+
+    return this.redact(subscription);
+  }
+
+  async delete(id: string, ownerKeyId?: string): Promise<boolean> {
+    const repository = await this.repository;
+    if (!(await this.getOwned(repository, id, ownerKeyId))) {
+      return false;
+    }
+
+    const deleted = await repository.deleteSubscription(id);
+    if (deleted) {
+      Logger.info('Deleted webhook subscription', 'WEBHOOKS', { subscription_id: id });
+    }
+    return deleted;
+  }
+
+  /**
+   * Delivery log of a subscription, or null if the caller has no such subscription
+   */
+  async getDeliveries(id: string, limit: number, ownerKeyId?: string): Promise<WebhookDelivery[] | null> {
+    const repository = await this.repository;
+    if (!(await this.getOwned(repository, id, ownerKeyId))) {
+      return null;
+    }
+    return repository.getDeliveries(id, limit);
+  }
+
+  /**
+   * Poll one of the caller's subscriptions, or every active one. Reviews are
+   * fetched once per app and storefront per poll, bypassing the cache.
+   */
+  async poll(subscriptionId?: string, ownerKeyId?: string): Promise<{ results: WebhookPollResult[]; total_subscriptions: number }> {
+    const repository = await this.repository;
+    const subscriptions = subscriptionId
+      ? [await this.getOwned(repository, subscriptionId, ownerKeyId)].filter((subscription): subscription is WebhookSubscription => !!subscription)
+      : (await repository.listSubscriptions(ownerKeyId ?? null)).filter(subscription => subscription.active);
+
+    const fetches = new Map<string, Promise<ReviewFetchResult & { source: ReviewSource }>>();
+    const fetchReviews = (appId: string, country: string) => {
+      const key = `${appId}:${country}`;
+      if (!fetches.has(key)) {
+        fetches.set(key, this.reviewSourceService.getReviews(appId, country, { refresh: true }));
+      }
+      return fetches.get(key)!;
+    };
+
+    const targets = subscriptions.flatMap(subscription => subscription.countries.map(country => ({ subscription, country })));
+
+    Logger.info('Polling webhook subscriptions', 'WEBHOOKS', { subscriptions: subscriptions.length, targets: targets.length });
+
+    const results = await Concurrency.map(targets, WebhookService.POLL_CONCURRENCY, ({ subscription, country }) =>
+      this.pollCountry(repository, subscription, country, fetchReviews)
+    );
+
+    return { results, total_subscriptions: subscriptions.length };
+  }
+
+  private async pollCountry(
+    repository: WebhookRepository,
+    subscription: WebhookSubscription,
+    country: string,
+    fetchReviews: (appId: string, country: string) => Promise<ReviewFetchResult & { source: ReviewSource }>
+  ): Promise<WebhookPollResult> {
+    const result: WebhookPollResult = {
+      subscription_id: subscription.id,
+      app_id: subscription.app_id,
+      country,
+      success: true,
+      baseline: false,
+      new_reviews: 0,
+      matched_reviews: 0
+    };
+
+    try {
+      const [seenReviews, { reviews, sources, source }] = await Promise.all([
+        repository.getSeenReviews(subscription.id, country),
+        fetchReviews(subscription.app_id, country)
+      ]);
+      const polledAt = new Date().toISOString();
+
+      // Reviews missing from a failed feed would turn up as new on the next poll.
+      // Feeds of a provider that was fallen back from do not count.
+      if (ReviewSourceService.isPartial(sources, source)) {
+        return { ...result, success: false, error: 'Some review feeds failed; the storefront will be polled again' };
+      }
+
+      if (seenReviews === null || (seenReviews.source !== undefined && seenReviews.source !== source)) {
+        // Providers report upstream failures as an empty list, which must not become the baseline
+        if (reviews.length === 0) {
+          return { ...result, baseline: true };
+        }
+        if (seenReviews !== null) {
+          Logger.info('Review source changed, recording a new baseline', 'WEBHOOKS', {
+            subscription_id: subscription.id,
+            country,
+            previous_source: seenReviews.source,
+            source
+          });
+        }
+        await repository.markReviewsSeen(subscription.id, country, reviews.map(review => review.id), polledAt, source);
+        return { ...result, baseline: true };
+      }
+
+      const seen = new Set(seenReviews.review_ids);
+      const newReviews = reviews.filter(review => !seen.has(review.id));
+      const matched = newReviews.filter(review => this.matches(subscription, review));
+      result.new_reviews = newReviews.length;
+      result.matched_reviews = matched.length;
+
+      if (matched.length > 0) {
+        result.delivery = await this.dispatcher.deliver(subscription, country, matched);
+        await repository.saveDelivery(result.delivery);
+        result.success = result.delivery.success;
+        result.error = result.delivery.error;
+      }
+
+      // Reviews of a failed delivery stay unseen, so the next poll delivers them again
+      const handled = result.success ? newReviews : newReviews.filter(review => !matched.includes(review));
+      await repository.markReviewsSeen(subscription.id, country, handled.map(review => review.id), polledAt, source);
+      return result;
+    } catch (error) {
+      Logger.error('Failed to poll webhook subscription', 'WEBHOOKS', {
+        subscription_id: subscription.id,
+        country
+      }, error as Error);
+      return { ...result, success: false, error: (error as Error)?.message || 'Unknown error' };
+    }
+  }
+
+  private matches(subscription: WebhookSubscription, review: AppReview): boolean {
+    if (review.rating > subscription.max_rating) {
+      return false;
+    }
+
+    if (!subscription.keywords || subscription.keywords.length === 0) {
+      return true;
+    }
+
+    const text = `${review.title} ${review.content}`.toLowerCase();
+    return subscription.keywords.some(keyword => text.includes(keyword));
+  }
+
+  /**
+   * Subscriptions store the numeric App Store ID of apps named by bundle ID
+   */
+  private async resolveAppId(request: WebhookSubscriptionRequest, country: string): Promise<string> {
+    return request.bundle_id !== undefined
+      ? this.reviewSourceService.resolveBundleId(request.bundle_id.trim(), country)
+      : Validators.sanitizeAppId(request.app_id!);
+  }
+
+  private parseKeywords(keywords?: string | string[]): string[] | undefined {
+    const values = Validators.splitList(keywords).map(keyword => keyword.toLowerCase());
+    return values.length > 0 ? Array.from(new Set(values)) : undefined;
+  }
+
+  /**
+   * A subscription with its secret, if it exists and belongs to the caller
+   */
+  private async getOwned(
+    repository: WebhookRepository,
+    id: string,
+    ownerKeyId?: string
+  ): Promise<WebhookSubscription | null> {
+    const subscription = await repository.getSubscription(id);
+    return subscription && (subscription.owner_key_id ?? null) === (ownerKeyId ?? null) ? subscription : null;
+  }
+
+  /**
+   * Drop the signing secret and the internal owner before returning a subscription
+   */
+  private redact(subscription: WebhookSubscription): WebhookSubscription {
+    const { secret, owner_key_id, ...rest } = subscription;
+    return rest;
+  }
+}
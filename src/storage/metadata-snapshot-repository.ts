@@ -0,0 +1,13 @@
+import { AppMetadataSnapshot } from '../types';
+
+/**
+ * Persistent log of app metadata snapshots, one per upstream metadata fetch
+ */
+export interface MetadataSnapshotRepository {
+  saveSnapshot(snapshot: AppMetadataSnapshot): Promise<void>;
+
+  /**
+   * Snapshots for an app in a storefront captured within the optional range, oldest first
+   */
+  getSnapshots(appId: string, country: string, range?: { since?: string; until?: string }): Promise<AppMetadataSnapshot[]>;
+}
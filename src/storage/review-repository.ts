@@ -0,0 +1,25 @@
+import { AppReview, ReviewSyncState } from '../types';
+
+/**
+ * Persistent store of reviews, keyed by app, storefront and review ID
+ */
+export interface ReviewRepository {
+  /**
+   * Insert new reviews and refresh existing ones. `first_seen` is set when a
+   * review is first stored and `last_seen` every time it is upserted.
+   * `review_types` accumulate: types a review was stored with are kept.
+   */
+  upsertReviews(appId: string, country: string, reviews: AppReview[], seenAt: string): Promise<{
+    inserted: number;
+    updated: number;
+  }>;
+
+  /**
+   * Stored reviews for an app and storefront, most recent first
+   */
+  getReviews(appId: string, country: string): Promise<AppReview[]>;
+
+  getSyncState(appId: string, country: string): Promise<ReviewSyncState | null>;
+
+  saveSyncState(state: ReviewSyncState): Promise<void>;
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { Logger } from '../utils/logger';
+
+/**
+ * SQLite database file backed by sql.js (SQLite compiled to WebAssembly, so no
+ * native build is needed). The database is loaded into memory when opened and
+ * written back to disk after every change. Use ':memory:' for a database that
+ * is never persisted.
+ */
+export class SqliteDatabase {
+  static readonly IN_MEMORY = ':memory:';
+
+  private static sqlJs?: Promise<SqlJsStatic>;
+  // One database per file for the lifetime of the server process
+  private static databases = new Map<string, Promise<SqliteDatabase>>();
+
+  private constructor(private db: Database, private filePath: string) {}
+
+  static open(filePath: string): Promise<SqliteDatabase> {
+    if (filePath === this.IN_MEMORY) {
+      return this.load(filePath);
+    }
+
+    const resolvedPath = path.resolve(filePath);
+    let database = this.databases.get(resolvedPath);
+
+    if (!database) {
+      database = this.load(resolvedPath);
+      this.databases.set(resolvedPath, database);
+      // Allow a later call to retry if opening failed
+      database.catch(() => this.databases.delete(resolvedPath));
+    }
+
+    return database;
+  }
+
+  private static async load(filePath: string): Promise<SqliteDatabase> {
+    this.sqlJs = this.sqlJs ?? initSqlJs({
+      locateFile: file => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file)
+    });
+    const SQL = await this.sqlJs;
+
+    if (filePath !== this.IN_MEMORY && fs.existsSync(filePath)) {
+      Logger.info('Opening SQLite database', 'STORAGE', { path: filePath });
+      return new SqliteDatabase(new SQL.Database(fs.readFileSync(filePath)), filePath);
+    }
+
+    Logger.info('Creating SQLite database', 'STORAGE', { path: filePath });
+    return new SqliteDatabase(new SQL.Database(), filePath);
+  }
+
+  /**
+   * Run schema statements (each must be idempotent, e.g. CREATE TABLE IF NOT EXISTS)
+   */
+  migrate(statements: string[]): void {
+    for (const statement of statements) {
+      this.db.run(statement);
+    }
+    this.persist();
+  }
+
+  all<T = Record<string, SqlValue>>(sql: string, params: SqlValue[] = []): T[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  get<T = Record<string, SqlValue>>(sql: string, params: SqlValue[] = []): T | undefined {
+    return this.all<T>(sql, params)[0];
+  }
+
+  /**
+   * Run statements in a transaction and persist the result. The transaction is
+   * rolled back if `work` throws.
+   */
+  transaction<T>(work: (run: (sql: string, params?: SqlValue[]) => number) => T): T {
+    const run = (sql: string, params: SqlValue[] = []) => {
+      this.db.run(sql, params);
+      return this.db.getRowsModified();
+    };
+
+    this.db.run('BEGIN');
+    try {
+      const result = work(run);
+      this.db.run('COMMIT');
+      this.persist();
+      return result;
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Write the database to disk atomically (temp file + rename)
+   */
+  private persist(): void {
+    if (this.filePath === SqliteDatabase.IN_MEMORY) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, Buffer.from(this.db.export()));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,114 @@
+import { SqlValue } from 'sql.js';
+import { AppMetadataSnapshot, ReviewSource } from '../types';
+import { MetadataSnapshotRepository } from './metadata-snapshot-repository';
+import { SqliteDatabase } from './sqlite-database';
+
+interface SnapshotRow {
+  app_id: string;
+  country: string;
+  captured_at: string;
+  source: ReviewSource;
+  rating: number;
+  rating_count: number;
+  reviews_count: number | null;
+  version: string | null;
+  current_version_release_date: string | null;
+  metadata: string;
+}
+
+export class SqliteMetadataSnapshotRepository implements MetadataSnapshotRepository {
+  private static readonly SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS metadata_snapshots (
+      app_id TEXT NOT NULL,
+      country TEXT NOT NULL,
+      captured_at TEXT NOT NULL,
+      captured_at_ms INTEGER NOT NULL,
+      source TEXT NOT NULL,
+      rating REAL NOT NULL,
+      rating_count INTEGER NOT NULL,
+      reviews_count INTEGER,
+      version TEXT,
+      current_version_release_date TEXT,
+      metadata TEXT NOT NULL
+    )`
+  ];
+  private static readonly INDEXES = [
+    'DROP INDEX IF EXISTS idx_metadata_snapshots_app_time',
+    'CREATE INDEX IF NOT EXISTS idx_metadata_snapshots_app_country_time ON metadata_snapshots (app_id, country, captured_at_ms)'
+  ];
+
+  private constructor(private database: SqliteDatabase) {}
+
+  static async open(filePath: string): Promise<SqliteMetadataSnapshotRepository> {
+    const database = await SqliteDatabase.open(filePath);
+    database.migrate(this.SCHEMA);
+    // Snapshots recorded before storefronts were tracked all came from the US store
+    const columns = database.all<{ name: string }>('PRAGMA table_info(metadata_snapshots)');
+    if (!columns.some(column => column.name === 'country')) {
+      database.migrate(["ALTER TABLE metadata_snapshots ADD COLUMN country TEXT NOT NULL DEFAULT 'us'"]);
+    }
+    database.migrate(this.INDEXES);
+    return new SqliteMetadataSnapshotRepository(database);
+  }
+
+  async saveSnapshot(snapshot: AppMetadataSnapshot): Promise<void> {
+    this.database.transaction(run => {
+      run(
+        `INSERT INTO metadata_snapshots (app_id, country, captured_at, captured_at_ms, source, rating, rating_count,
+           reviews_count, version, current_version_release_date, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          snapshot.app_id,
+          snapshot.country,
+          snapshot.captured_at,
+          new Date(snapshot.captured_at).getTime(),
+          snapshot.source,
+          snapshot.rating,
+          snapshot.rating_count,
+          snapshot.reviews_count ?? null,
+          snapshot.version ?? null,
+          snapshot.current_version_release_date ?? null,
+          JSON.stringify(snapshot.metadata)
+        ]
+      );
+    });
+  }
+
+  async getSnapshots(
+    appId: string,
+    country: string,
+    range: { since?: string; until?: string } = {}
+  ): Promise<AppMetadataSnapshot[]> {
+    const conditions = ['app_id = ?', 'country = ?'];
+    const params: SqlValue[] = [appId, country];
+
+    if (range.since) {
+      conditions.push('captured_at_ms >= ?');
+      params.push(new Date(range.since).getTime());
+    }
+    if (range.until) {
+      conditions.push('captured_at_ms <= ?');
+      params.push(new Date(range.until).getTime());
+    }
+
+    const rows = this.database.all<SnapshotRow>(
+      `SELECT app_id, country, captured_at, source, rating, rating_count, reviews_count, version,
+         current_version_release_date, metadata
+       FROM metadata_snapshots WHERE ${conditions.join(' AND ')} ORDER BY captured_at_ms ASC`,
+      params
+    );
+
+    return rows.map(row => ({
+      app_id: row.app_id,
+      country: row.country,
+      captured_at: row.captured_at,
+      source: row.source,
+      rating: row.rating,
+      rating_count: row.rating_count,
+      reviews_count: row.reviews_count ?? undefined,
+      version: row.version ?? undefined,
+      current_version_release_date: row.current_version_release_date ?? undefined,
+      metadata: JSON.parse(row.metadata)
+    }));
+  }
+}
@@ -0,0 +1,169 @@
+import { AppReview, ReviewSyncState } from '../types';
+import { ReviewRepository } from './review-repository';
+import { SqliteDatabase } from './sqlite-database';
+import { Validators } from '../utils/validators';
+
+interface ReviewRow {
+  id: string;
+  app_id: string;
+  country: string;
+  rating: number;
+  title: string;
+  content: string;
+  author: string;
+  date: string;
+  helpful_votes: number;
+  version: string | null;
+  review_types: string;
+  first_seen: string;
+  last_seen: string;
+}
+
+export class SqliteReviewRepository implements ReviewRepository {
+  private static readonly SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS reviews (
+      app_id TEXT NOT NULL,
+      country TEXT NOT NULL,
+      id TEXT NOT NULL,
+      rating INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      author TEXT NOT NULL,
+      date TEXT NOT NULL,
+      date_ms INTEGER NOT NULL,
+      helpful_votes INTEGER NOT NULL DEFAULT 0,
+      version TEXT,
+      review_types TEXT NOT NULL DEFAULT '[]',
+      first_seen TEXT NOT NULL,
+      last_seen TEXT NOT NULL,
+      PRIMARY KEY (app_id, country, id)
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_reviews_app_date ON reviews (app_id, country, date_ms)',
+    `CREATE TABLE IF NOT EXISTS review_sync_state (
+      app_id TEXT NOT NULL,
+      country TEXT NOT NULL,
+      last_synced_at TEXT NOT NULL,
+      latest_review_date TEXT,
+      source TEXT,
+      PRIMARY KEY (app_id, country)
+    )`
+  ];
+
+  private constructor(private database: SqliteDatabase) {}
+
+  static async open(filePath: string): Promise<SqliteReviewRepository> {
+    const database = await SqliteDatabase.open(filePath);
+    database.migrate(this.SCHEMA);
+    // Reviews stored before versions were captured keep a null version
+    const columns = database.all<{ name: string }>('PRAGMA table_info(reviews)');
+    if (!columns.some(column => column.name === 'version')) {
+      database.migrate(['ALTER TABLE reviews ADD COLUMN version TEXT']);
+    }
+    return new SqliteReviewRepository(database);
+  }
+
+  async upsertReviews(appId: string, country: string, reviews: AppReview[], seenAt: string): Promise<{
+    inserted: number;
+    updated: number;
+  }> {
+    return this.database.transaction(run => {
+      let inserted = 0;
+      let updated = 0;
+
+      for (const review of reviews) {
+        const stored = this.database.get<{ review_types: string }>(
+          'SELECT review_types FROM reviews WHERE app_id = ? AND country = ? AND id = ?',
+          [appId, country, review.id]
+        );
+        // A review can turn up in several feeds across syncs, so keep the types it was stored with
+        const reviewTypes = Array.from(new Set([
+          ...(stored ? JSON.parse(stored.review_types) as string[] : []),
+          ...(review.review_types ?? [])
+        ]));
+
+        const values = [
+          review.rating,
+          review.title,
+          review.content,
+          review.author,
+          review.date,
+          new Date(review.date).getTime() || 0,
+          review.helpful_votes ?? 0,
+          review.version ?? null,
+          JSON.stringify(reviewTypes),
+          seenAt
+        ];
+
+        if (stored) {
+          run(
+            `UPDATE reviews SET rating = ?, title = ?, content = ?, author = ?, date = ?, date_ms = ?,
+               helpful_votes = ?, version = COALESCE(?, version), review_types = ?, last_seen = ?
+             WHERE app_id = ? AND country = ? AND id = ?`,
+            [...values, appId, country, review.id]
+          );
+          updated++;
+        } else {
+          run(
+            `INSERT INTO reviews (rating, title, content, author, date, date_ms, helpful_votes, version, review_types,
+               last_seen, app_id, country, id, first_seen)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [...values, appId, country, review.id, seenAt]
+          );
+          inserted++;
+        }
+      }
+
+      return { inserted, updated };
+    });
+  }
+
+  async getReviews(appId: string, country: string): Promise<AppReview[]> {
+    const rows = this.database.all<ReviewRow>(
+      `SELECT id, app_id, country, rating, title, content, author, date, helpful_votes, version, review_types,
+         first_seen, last_seen
+       FROM reviews WHERE app_id = ? AND country = ? ORDER BY date_ms DESC`,
+      [appId, country]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      rating: row.rating,
+      title: row.title,
+      content: row.content,
+      author: row.author,
+      date: row.date,
+      helpful_votes: row.helpful_votes,
+      version: row.version ?? undefined,
+      app_id: row.app_id,
+      // App Store IDs and Google Play package names cannot collide
+      platform: Validators.detectPlatform(row.app_id),
+      country: row.country,
+      review_types: JSON.parse(row.review_types),
+      first_seen: row.first_seen,
+      last_seen: row.last_seen
+    }));
+  }
+
+  async getSyncState(appId: string, country: string): Promise<ReviewSyncState | null> {
+    const row = this.database.get<ReviewSyncState>(
+      `SELECT app_id, country, last_synced_at, latest_review_date, source
+       FROM review_sync_state WHERE app_id = ? AND country = ?`,
+      [appId, country]
+    );
+    return row ?? null;
+  }
+
+  async saveSyncState(state: ReviewSyncState): Promise<void> {
+    this.database.transaction(run => {
+      run(
+        `INSERT INTO review_sync_state (app_id, country, last_synced_at, latest_review_date, source)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (app_id, country) DO UPDATE SET
+           last_synced_at = excluded.last_synced_at,
+           latest_review_date = excluded.latest_review_date,
+           source = excluded.source`,
+        [state.app_id, state.country, state.last_synced_at, state.latest_review_date, state.source ?? null]
+      );
+    });
+  }
+}
@@ -0,0 +1,247 @@
+import { ReviewSource, WebhookDelivery, WebhookFormat, WebhookSubscription } from '../types';
+import { WebhookRepository } from './webhook-repository';
+import { SqliteDatabase } from './sqlite-database';
+
+interface SubscriptionRow {
+  id: string;
+  app_id: string;
+  countries: string;
+  max_rating: number;
+  keywords: string | null;
+  url: string;
+  format: WebhookFormat;
+  secret: string;
+  owner_key_id: string | null;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  subscription_id: string;
+  app_id: string;
+  country: string;
+  review_ids: string;
+  success: number;
+  attempts: number;
+  status_code: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+export class SqliteWebhookRepository implements WebhookRepository {
+  private static readonly SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+      id TEXT PRIMARY KEY,
+      app_id TEXT NOT NULL,
+      countries TEXT NOT NULL,
+      max_rating INTEGER NOT NULL,
+      keywords TEXT,
+      url TEXT NOT NULL,
+      format TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      active INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS webhook_poll_state (
+      subscription_id TEXT NOT NULL,
+      country TEXT NOT NULL,
+      last_polled_at TEXT NOT NULL,
+      PRIMARY KEY (subscription_id, country)
+    )`,
+    `CREATE TABLE IF NOT EXISTS webhook_seen_reviews (
+      subscription_id TEXT NOT NULL,
+      country TEXT NOT NULL,
+      review_id TEXT NOT NULL,
+      PRIMARY KEY (subscription_id, country, review_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      subscription_id TEXT NOT NULL,
+      app_id TEXT NOT NULL,
+      country TEXT NOT NULL,
+      review_ids TEXT NOT NULL,
+      success INTEGER NOT NULL,
+      attempts INTEGER NOT NULL,
+      status_code INTEGER,
+      error TEXT,
+      created_at TEXT NOT NULL
+    )`,
+    'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries (subscription_id, created_at)'
+  ];
+
+  private constructor(private database: SqliteDatabase) {}
+
+  static async open(filePath: string): Promise<SqliteWebhookRepository> {
+    const database = await SqliteDatabase.open(filePath);
+    database.migrate(this.SCHEMA);
+    // Subscriptions created before owners were recorded have no owner
+    const columns = database.all<{ name: string }>('PRAGMA table_info(webhook_subscriptions)');
+    if (!columns.some(column => column.name === 'owner_key_id')) {
+      database.migrate(['ALTER TABLE webhook_subscriptions ADD COLUMN owner_key_id TEXT']);
+    }
+    database.migrate(['CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_owner ON webhook_subscriptions (owner_key_id)']);
+    // Storefronts polled before sources were recorded have no source
+    const pollStateColumns = database.all<{ name: string }>('PRAGMA table_info(webhook_poll_state)');
+    if (!pollStateColumns.some(column => column.name === 'source')) {
+      database.migrate(['ALTER TABLE webhook_poll_state ADD COLUMN source TEXT']);
+    }
+    return new SqliteWebhookRepository(database);
+  }
+
+  async saveSubscription(subscription: WebhookSubscription): Promise<void> {
+    this.database.transaction(run => {
+      run(
+        `INSERT INTO webhook_subscriptions (id, app_id, countries, max_rating, keywords, url, format, secret,
+           owner_key_id, active, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           app_id = excluded.app_id,
+           countries = excluded.countries,
+           max_rating = excluded.max_rating,
+           keywords = excluded.keywords,
+           url = excluded.url,
+           format = excluded.format,
+           active = excluded.active,
+           updated_at = excluded.updated_at`,
+        [
+          subscription.id,
+          subscription.app_id,
+          JSON.stringify(subscription.countries),
+          subscription.max_rating,
+          subscription.keywords ? JSON.stringify(subscription.keywords) : null,
+          subscription.url,
+          subscription.format,
+          subscription.secret ?? '',
+          subscription.owner_key_id ?? null,
+          subscription.active ? 1 : 0,
+          subscription.created_at,
+          subscription.updated_at
+        ]
+      );
+    });
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription | null> {
+    const row = this.database.get<SubscriptionRow>('SELECT * FROM webhook_subscriptions WHERE id = ?', [id]);
+    return row ? this.toSubscription(row) : null;
+  }
+
+  async listSubscriptions(ownerKeyId: string | null): Promise<WebhookSubscription[]> {
+    return this.database.all<SubscriptionRow>(
+      'SELECT * FROM webhook_subscriptions WHERE owner_key_id IS ? ORDER BY created_at ASC',
+      [ownerKeyId]
+    ).map(row => this.toSubscription(row));
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    return this.database.transaction(run => {
+      run('DELETE FROM webhook_poll_state WHERE subscription_id = ?', [id]);
+      run('DELETE FROM webhook_seen_reviews WHERE subscription_id = ?', [id]);
+      run('DELETE FROM webhook_deliveries WHERE subscription_id = ?', [id]);
+      return run('DELETE FROM webhook_subscriptions WHERE id = ?', [id]) > 0;
+    });
+  }
+
+  async getSeenReviews(subscriptionId: string, country: string): Promise<{ review_ids: string[]; source?: ReviewSource } | null> {
+    const state = this.database.get<{ source: ReviewSource | null }>(
+      'SELECT source FROM webhook_poll_state WHERE subscription_id = ? AND country = ?',
+      [subscriptionId, country]
+    );
+    if (!state) {
+      return null;
+    }
+
+    const reviewIds = this.database.all<{ review_id: string }>(
+      'SELECT review_id FROM webhook_seen_reviews WHERE subscription_id = ? AND country = ?',
+      [subscriptionId, country]
+    ).map(row => row.review_id);
+    return { review_ids: reviewIds, source: state.source ?? undefined };
+  }
+
+  async markReviewsSeen(
+    subscriptionId: string,
+    country: string,
+    reviewIds: string[],
+    polledAt: string,
+    source: ReviewSource
+  ): Promise<void> {
+    this.database.transaction(run => {
+      for (const reviewId of reviewIds) {
+        run(
+          `INSERT INTO webhook_seen_reviews (subscription_id, country, review_id) VALUES (?, ?, ?)
+           ON CONFLICT DO NOTHING`,
+          [subscriptionId, country, reviewId]
+        );
+      }
+      run(
+        `INSERT INTO webhook_poll_state (subscription_id, country, last_polled_at, source) VALUES (?, ?, ?, ?)
+         ON CONFLICT (subscription_id, country) DO UPDATE SET
+           last_polled_at = excluded.last_polled_at,
+           source = excluded.source`,
+        [subscriptionId, country, polledAt, source]
+      );
+    });
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.database.transaction(run => {
+      run(
+        `INSERT INTO webhook_deliveries (id, subscription_id, app_id, country, review_ids, success, attempts,
+           status_code, error, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          delivery.id,
+          delivery.subscription_id,
+          delivery.app_id,
+          delivery.country,
+          JSON.stringify(delivery.review_ids),
+          delivery.success ? 1 : 0,
+          delivery.attempts,
+          delivery.status_code ?? null,
+          delivery.error ?? null,
+          delivery.created_at
+        ]
+      );
+    });
+  }
+
+  async getDeliveries(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    const rows = this.database.all<DeliveryRow>(
+      'SELECT * FROM webhook_deliveries WHERE subscription_id = ? ORDER BY created_at DESC LIMIT ?',
+      [subscriptionId, limit]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      subscription_id: row.subscription_id,
+      app_id: row.app_id,
+      country: row.country,
+      review_ids: JSON.parse(row.review_ids),
+      success: row.success === 1,
+      attempts: row.attempts,
+      status_code: row.status_code ?? undefined,
+      error: row.error ?? undefined,
+      created_at: row.created_at
+    }));
+  }
+
+  private toSubscription(row: SubscriptionRow): WebhookSubscription {
+    return {
+      id: row.id,
+      app_id: row.app_id,
+      countries: JSON.parse(row.countries),
+      max_rating: row.max_rating,
+      keywords: row.keywords ? JSON.parse(row.keywords) : undefined,
+      url: row.url,
+      format: row.format,
+      secret: row.secret,
+      owner_key_id: row.owner_key_id ?? undefined,
+      active: row.active === 1,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { Env } from '../types';
+import { ReviewRepository } from './review-repository';
+import { SqliteReviewRepository } from './sqlite-review-repository';
+import { MetadataSnapshotRepository } from './metadata-snapshot-repository';
+import { SqliteMetadataSnapshotRepository } from './sqlite-metadata-snapshot-repository';
+import { WebhookRepository } from './webhook-repository';
+import { SqliteWebhookRepository } from './sqlite-webhook-repository';
+
+/**
+ * Entry point to the persistent stores. Repositories are opened once per
+ * database file and shared across requests.
+ */
+export class Storage {
+  static readonly DEFAULT_PATH = 'data/reviews.sqlite';
+
+  private static reviewRepositories = new Map<string, Promise<ReviewRepository>>();
+  private static metadataSnapshotRepositories = new Map<string, Promise<MetadataSnapshotRepository>>();
+  private static webhookRepositories = new Map<string, Promise<WebhookRepository>>();
+
+  static getPath(env: Env): string {
+    return env.STORAGE_PATH || this.DEFAULT_PATH;
+  }
+
+  static getReviewRepository(env: Env): Promise<ReviewRepository> {
+    return this.getOrOpen(this.reviewRepositories, this.getPath(env), filePath => SqliteReviewRepository.open(filePath));
+  }
+
+  static getMetadataSnapshotRepository(env: Env): Promise<MetadataSnapshotRepository> {
+    return this.getOrOpen(
+      this.metadataSnapshotRepositories,
+      this.getPath(env),
+      filePath => SqliteMetadataSnapshotRepository.open(filePath)
+    );
+  }
+
+  static getWebhookRepository(env: Env): Promise<WebhookRepository> {
+    return this.getOrOpen(this.webhookRepositories, this.getPath(env), filePath => SqliteWebhookRepository.open(filePath));
+  }
+
+  private static getOrOpen<T>(
+    repositories: Map<string, Promise<T>>,
+    filePath: string,
+    open: (filePath: string) => Promise<T>
+  ): Promise<T> {
+    let repository = repositories.get(filePath);
+
+    if (!repository) {
+      repository = open(filePath);
+      repositories.set(filePath, repository);
+      // Allow a later call to retry if opening failed
+      repository.catch(() => repositories.delete(filePath));
+    }
+
+    return repository;
+  }
+}
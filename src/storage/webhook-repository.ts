@@ -0,0 +1,40 @@
+import { ReviewSource, WebhookDelivery, WebhookSubscription } from '../types';
+
+/**
+ * Persistent store of webhook subscriptions, the review IDs each subscription
+ * has already seen, and the delivery log
+ */
+export interface WebhookRepository {
+  saveSubscription(subscription: WebhookSubscription): Promise<void>;
+
+  /**
+   * Subscriptions are returned with their signing secret
+   */
+  getSubscription(id: string): Promise<WebhookSubscription | null>;
+
+  /**
+   * Subscriptions owned by an API key, or the ones without an owner for null
+   */
+  listSubscriptions(ownerKeyId: string | null): Promise<WebhookSubscription[]>;
+
+  /**
+   * Delete a subscription with its seen reviews and delivery log. Resolves to
+   * false if it did not exist.
+   */
+  deleteSubscription(id: string): Promise<boolean>;
+
+  /**
+   * Review IDs already seen for a subscription and storefront, with the source
+   * that served the last poll, or null if the storefront has never been polled
+   */
+  getSeenReviews(subscriptionId: string, country: string): Promise<{ review_ids: string[]; source?: ReviewSource } | null>;
+
+  markReviewsSeen(subscriptionId: string, country: string, reviewIds: string[], polledAt: string, source: ReviewSource): Promise<void>;
+
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+
+  /**
+   * Most recent deliveries first
+   */
+  getDeliveries(subscriptionId: string, limit: number): Promise<WebhookDelivery[]>;
+}
@@ -6,53 +6,609 @@ export interface Env {
   ASO_MARKET_API_URL?: string;
   CLOUDFLARE_API_TOKEN?: string;
   CLOUDFLARE_ZONE_ID?: string;
+  CACHE_METADATA_TTL_SECONDS?: string;
+  CACHE_REVIEWS_TTL_SECONDS?: string;
+  CACHE_STALE_SECONDS?: string;
+  UPSTREAM_MAX_RETRIES?: string;
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD?: string;
+  CIRCUIT_BREAKER_COOLDOWN_MS?: string;
+  STORAGE_PATH?: string;
+  API_KEYS?: string; // JSON array of ApiKeyConfig, or a comma-separated list of keys
+  API_KEYS_FILE?: string; // Path to a JSON file with an array of ApiKeyConfig
+  UPSTREAM_FIXTURES_MODE?: string; // off (default), record or replay
+  UPSTREAM_FIXTURES_DIR?: string;
 }
 
-export interface AppStoreApp {
-  app_id: string;
+export type Platform = 'app_store' | 'google_play';
+
+export type ReviewSource = 'itunes' | 'aso_market' | 'google_play';
+
+export type ReviewSourceOption = ReviewSource | 'auto';
+
+export interface ReviewFetchOptions {
+  source?: ReviewSourceOption;
+  refresh?: boolean; // Bypass cached upstream responses
+  lang?: string; // Metadata language, e.g. de_de
+}
+
+/**
+ * Outcome of one upstream review feed request (one page of one iTunes sort
+ * order, or one ASO Market request)
+ */
+export interface ReviewFeedStatus {
+  source: ReviewSource;
+  country: string;
+  feed: string; // Sort order (mostRecent, ...) or 'reviews' for ASO Market
+  page: number;
+  status: 'ok' | 'failed';
+  reviews_count: number;
+  error?: string;
+  error_code?: ErrorCode;
+}
+
+export interface ReviewFetchResult {
+  reviews: AppReview[];
+  sources: ReviewFeedStatus[];
+}
+
+/**
+ * App metadata, normalized across platforms. Fields a store does not report
+ * are left unset.
+ */
+export interface AppMetadata {
+  app_id: string; // Numeric App Store ID or Google Play package name
   name: string;
   rating: number;
   rating_count: number;
-  reviews_count: number;
+  reviews_count?: number; // Not reported by the iTunes lookup API
   url: string;
-  platform: 'app_store';
+  platform: Platform;
   last_updated: string;
+  country?: string; // Storefront the metadata was looked up in
+  bundle_id?: string; // App Store only, e.g. com.example.app
+  description?: string;
+  version?: string;
+  release_notes?: string;
+  release_date?: string; // Original release of the app
+  current_version_release_date?: string;
+  current_version_rating?: number;
+  current_version_rating_count?: number;
+  genres?: string[];
+  primary_genre?: string;
+  developer_name?: string;
+  developer_id?: string;
+  price?: number;
+  currency?: string;
+  formatted_price?: string;
+  content_rating?: string;
+  file_size_bytes?: number;
+  installs?: number; // Minimum install count (Google Play only)
+  minimum_os_version?: string;
+  supported_devices?: string[];
+  languages?: string[]; // ISO 639-1 codes
+  icon_urls?: AppIconUrls;
   screenshotUrls?: string[];
   ipadScreenshotUrls?: string[];
   appletvScreenshotUrls?: string[];
 }
 
-export interface AppStoreReview {
-  id: string;
+export interface AppIconUrls {
+  small?: string; // 60x60
+  medium?: string; // 100x100
+  large?: string; // 512x512
+}
+
+/**
+ * A review, normalized across platforms
+ */
+export interface AppReview {
+  id: string; // appstore_… or googleplay_…
   rating: number;
   title: string;
   content: string;
   author: string;
   date: string;
   helpful_votes?: number;
+  version?: string; // App version the review was written for, when the store reports it
   app_id: string;
+  platform: Platform;
+  country?: string; // Storefront the review was fetched from
   review_types: string[]; // Array of sorting methods this review appears in
+  first_seen?: string; // When the review was first stored (history only)
+  last_seen?: string; // When the review was last seen upstream (history only)
+  analysis?: ReviewTextAnalysis; // Sentiment and topics (analyze=true only)
+}
+
+export interface ReviewSyncState {
+  app_id: string;
+  country: string;
+  last_synced_at: string;
+  latest_review_date: string | null;
+  source?: ReviewSource;
+}
+
+export interface ReviewSyncResult {
+  app_id: string;
+  country: string;
+  success: boolean;
+  incremental: boolean; // false for the first sync of an app/storefront
+  source?: ReviewSource;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  latest_review_date: string | null;
+  synced_at: string;
+  error?: string;
+}
+
+export interface AppMetadataSnapshot {
+  app_id: string;
+  country: string;
+  captured_at: string;
+  source: ReviewSource;
+  rating: number;
+  rating_count: number;
+  reviews_count?: number;
+  version?: string;
+  current_version_release_date?: string;
+  metadata: AppMetadata; // Full metadata as fetched, including screenshots
+}
+
+export interface AppHistoryPoint {
+  captured_at: string;
+  value: number;
+  version?: string; // App version live when the snapshot was taken
+}
+
+export interface AppVersionRelease {
+  version: string;
+  release_date?: string;
+  first_seen: string; // First snapshot that saw this version
+}
+
+export interface AppHistoryRequest {
+  app_id: string;
+  platform?: Platform; // Detected from app_id when omitted
+  country?: string;
+  lang?: string;
+  since?: string;
+  until?: string;
+  source?: ReviewSourceOption;
+  refresh?: boolean;
+  include_snapshots?: boolean;
+}
+
+export type AppSearchEntity = 'software' | 'iPadSoftware' | 'macSoftware';
+
+export interface AppSearchRequest {
+  term: string;
+  country?: string;
+  lang?: string;
+  limit?: number;
+  entity?: AppSearchEntity;
+  refresh?: boolean;
+}
+
+export interface AppSearchResponse {
+  term: string;
+  country: string;
+  entity: AppSearchEntity;
+  results: AppMetadata[];
+  total_results: number;
+  generated_at: string;
+}
+
+export interface AppHistoryResponse {
+  app_id: string;
+  country: string;
+  name?: string;
+  rating: AppHistoryPoint[];
+  rating_count: AppHistoryPoint[];
+  releases: AppVersionRelease[];
+  total_snapshots: number;
+  snapshots?: AppMetadataSnapshot[];
+  generated_at: string;
+}
+
+export interface CountryReviewStats {
+  country: string;
+  total_reviews: number;
+  average_rating: number;
+  source?: ReviewSource;
 }
 
 export interface ReviewsRequest {
   app_id: string;
+  bundle_id?: string; // App Store bundle ID, resolved to app_id
+  platform?: Platform; // Detected from app_id when omitted
   include_metadata?: boolean;
-  country?: string;
+  country?: string | string[]; // Single code, comma-separated list, array or 'all'
+  page?: number;
+  page_size?: number;
+  cursor?: string;
+  source?: ReviewSourceOption;
+  refresh?: boolean;
+  min_rating?: number;
+  max_rating?: number;
+  since?: string; // ISO 8601 date or date-time
+  until?: string;
+  search?: string; // Keywords matched against title and content
+  review_types?: string | string[];
+  min_helpful_votes?: number;
+  sort?: ReviewSort;
+  order?: 'asc' | 'desc';
+  include_stats?: boolean;
+  format?: ReviewExportFormat;
+  history?: boolean; // Serve accumulated reviews from the review store
+  fields?: string | string[]; // App metadata fields to return
+  lang?: string; // Metadata language, e.g. de_de
+  strict?: boolean; // Fail instead of serving partial results when an upstream feed fails
+  analyze?: boolean; // Add sentiment and topic analysis
+}
+
+export type ReviewExportFormat = 'json' | 'csv' | 'ndjson';
+
+export interface RatingWindowStats {
+  review_count: number;
+  average_rating: number | null; // null when no reviews fall in the window
+}
+
+export interface WeeklyReviewVolume {
+  week_start: string; // Monday of the week (YYYY-MM-DD, UTC)
+  review_count: number;
+  average_rating: number;
+}
+
+export interface ReviewVersionStats {
+  version: string;
+  review_count: number;
+  average_rating: number;
+  rating_distribution: Record<string, number>; // Star rating ('1'-'5') to review count
+  average_rating_change: number | null; // Against the previous version; null for the oldest
+  first_review_date: string;
+  last_review_date: string;
+}
+
+export interface ReviewStatistics {
+  total_reviews: number;
+  average_rating: number;
+  rating_distribution: Record<string, number>; // Star rating ('1'-'5') to review count
+  rating_windows: {
+    last_7_days: RatingWindowStats;
+    last_30_days: RatingWindowStats;
+    last_90_days: RatingWindowStats;
+  };
+  weekly_volume: WeeklyReviewVolume[];
+  average_title_length: number;
+  average_content_length: number;
+  helpful_votes: {
+    total: number;
+    average: number;
+    reviews_with_votes: number;
+  };
+}
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface ReviewTopicMention {
+  topic: string;
+  sentiment: SentimentLabel; // Sentiment of the sentences mentioning the topic
+}
+
+export interface ReviewTextAnalysis {
+  sentiment_score: number; // -1 (most negative) to 1 (most positive)
+  sentiment: SentimentLabel;
+  topics: ReviewTopicMention[];
+  keywords: string[]; // Most frequent words, stopwords excluded
+  language: string; // Lexicon the review was analyzed with
+}
+
+export interface ReviewTopicSummary {
+  topic: string;
+  review_count: number;
+  share: number; // Fraction of the analyzed reviews
+  average_rating: number;
+  sample_review_ids: string[];
+}
+
+export interface SentimentMismatch {
+  review_id: string;
+  rating: number;
+  sentiment_score: number;
+  type: 'positive_text_low_rating' | 'negative_text_high_rating';
+  title: string;
+}
+
+export interface ReviewAnalysisSummary {
+  analyzed_reviews: number;
+  languages: string[];
+  average_sentiment: number | null; // null when there are no reviews
+  sentiment_distribution: Record<SentimentLabel, number>;
+  top_complaints: ReviewTopicSummary[]; // Topics mentioned negatively, most frequent first
+  top_praises: ReviewTopicSummary[]; // Topics mentioned positively, most frequent first
+  mismatches: SentimentMismatch[]; // Strongest first, capped
+  mismatch_count: number;
+}
+
+export interface ComplaintKeyword {
+  keyword: string;
+  review_count: number; // Complaints mentioning the keyword
+  share: number; // Fraction of all complaints
+}
+
+/**
+ * Word lists for the review analyzer. Keys may end in `*` to match any word
+ * starting with the rest; topic keywords may be phrases of several words.
+ */
+export interface SentimentLexicon {
+  language: string; // ISO 639-1 code, matched against the `lang` parameter
+  storefronts?: string[]; // Storefronts whose reviews are in this language by default
+  words: Record<string, number>; // Word to valence, -5 to 5
+  negations: string[]; // Words that flip the sentiment of the words following them
+  intensifiers: Record<string, number>; // Word to multiplier for the next sentiment word
+  contrasts?: string[]; // Words like "but" after which the sentence carries more weight
+  stopwords: string[];
+  topics: Record<string, string[]>; // Topic to keywords
+}
+
+export interface ReviewStatsResponse {
+  app_id: string;
+  app_metadata?: Partial<AppMetadata>; // Sparse when `fields` is given
+  stats: ReviewStatistics;
+  version_breakdown: ReviewVersionStats[];
+  total_reviews: number;
+  total_reviews_before_filter?: number;
+  countries?: string[];
+  source?: ReviewSource | 'mixed';
+  sources?: ReviewFeedStatus[];
+  partial?: boolean;
+  generated_at: string;
+}
+
+export type ReviewSort = 'date' | 'rating' | 'helpfulness';
+
+export interface PaginationInfo {
+  page: number;
+  page_size: number;
+  total_pages: number;
+  total_items: number;
+  has_more: boolean;
+  next_cursor?: string;
 }
 
 export interface ReviewsResponse {
   app_id: string;
-  app_metadata?: AppStoreApp;
-  reviews: AppStoreReview[];
+  app_metadata?: Partial<AppMetadata>; // Sparse when `fields` is given
+  reviews: AppReview[];
   total_reviews: number;
+  total_reviews_before_filter?: number;
+  pagination?: PaginationInfo;
+  countries?: string[];
+  country_breakdown?: CountryReviewStats[];
+  version_breakdown?: ReviewVersionStats[]; // Over all matching reviews, not just the current page
+  source?: ReviewSource | 'mixed';
+  stats?: ReviewStatistics;
+  analysis?: ReviewAnalysisSummary;
+  sync?: ReviewSyncResult[]; // Sync run before serving history
+  sources?: ReviewFeedStatus[]; // Upstream feed requests behind the reviews
+  partial?: boolean; // True when any of the sources failed
+  generated_at: string;
+}
+
+export interface ReviewSyncResponse {
+  app_id: string;
+  results: ReviewSyncResult[];
   generated_at: string;
 }
 
+export type WebhookFormat = 'json' | 'slack';
 
+export interface WebhookSubscription {
+  id: string;
+  app_id: string;
+  countries: string[];
+  max_rating: number; // Notify for reviews rated at or below this
+  keywords?: string[]; // When set, the review must mention at least one
+  url: string;
+  format: WebhookFormat;
+  secret?: string; // HMAC signing secret, only returned when the subscription is created
+  owner_key_id?: string; // ID of the API key that created it; internal, never returned
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookSubscriptionRequest {
+  app_id?: string;
+  bundle_id?: string; // App Store bundle ID, resolved to app_id
+  country?: string | string[];
+  max_rating?: number;
+  keywords?: string | string[];
+  url?: string;
+  format?: WebhookFormat;
+  active?: boolean;
+}
+
+export interface WebhookSubscriptionsResponse {
+  subscriptions: WebhookSubscription[];
+  total_subscriptions: number;
+  generated_at: string;
+}
+
+export interface WebhookReviewsPayload {
+  event: 'reviews.new';
+  subscription_id: string;
+  app_id: string;
+  country: string;
+  reviews: AppReview[];
+  sent_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  app_id: string;
+  country: string;
+  review_ids: string[];
+  success: boolean;
+  attempts: number;
+  status_code?: number;
+  error?: string;
+  created_at: string;
+}
+
+export interface WebhookDeliveriesResponse {
+  subscription_id: string;
+  deliveries: WebhookDelivery[];
+  total_deliveries: number;
+  generated_at: string;
+}
+
+export interface WebhookPollResult {
+  subscription_id: string;
+  app_id: string;
+  country: string;
+  success: boolean;
+  baseline: boolean; // First poll only records the current reviews as seen
+  new_reviews: number;
+  matched_reviews: number;
+  delivery?: WebhookDelivery;
+  error?: string;
+}
+
+export interface WebhookPollResponse {
+  results: WebhookPollResult[];
+  total_subscriptions: number;
+  generated_at: string;
+}
+
+export interface MultipleReviewsRequest {
+  app_ids?: string[];
+  bundle_ids?: string[]; // App Store bundle IDs, resolved to app IDs
+  platform?: Platform; // Detected from each app ID when omitted
+  limit?: number;
+  include_metadata?: boolean;
+  country?: string;
+  source?: ReviewSourceOption;
+  refresh?: boolean;
+  fields?: string | string[]; // App metadata fields to return
+  lang?: string;
+}
+
+export interface AppReviewsResult {
+  app_id: string; // Empty when a bundle ID could not be resolved
+  bundle_id?: string; // When the app was requested by bundle ID
+  success: boolean;
+  app_metadata?: Partial<AppMetadata>; // Sparse when `fields` is given
+  reviews?: AppReview[];
+  total_reviews?: number;
+  source?: ReviewSource;
+  error?: ErrorResponse;
+}
+
+export interface MultipleReviewsResponse {
+  results: AppReviewsResult[];
+  total_apps: number;
+  successful_apps: number;
+  failed_apps: number;
+  generated_at: string;
+}
+
+export interface CompareRequest {
+  app_id: string; // Primary app
+  bundle_id?: string; // App Store bundle ID of the primary app, instead of app_id
+  competitors: string | string[]; // Comma-separated string or array of app IDs
+  country?: string;
+  lang?: string;
+  source?: ReviewSourceOption;
+  refresh?: boolean;
+}
+
+/**
+ * Differences to the primary app (competitor minus primary)
+ */
+export interface ComparedAppDeltas {
+  rating: number;
+  rating_count: number;
+  recent_average_rating: number | null; // null when either app has no recent reviews
+  average_weekly_reviews: number;
+}
+
+export interface ComparedApp {
+  app_id: string;
+  success: boolean;
+  name?: string;
+  platform?: Platform;
+  rating?: number;
+  rating_count?: number;
+  recent_average_rating?: number | null; // Reviews of the last 30 days
+  rating_distribution?: Record<string, number>; // Star rating ('1'-'5') to review count
+  review_count?: number;
+  weekly_volume?: WeeklyReviewVolume[];
+  average_weekly_reviews?: number;
+  complaint_keywords?: ComplaintKeyword[];
+  deltas?: ComparedAppDeltas; // Competitors only
+  source?: ReviewSource;
+  partial?: boolean; // True when any of the app's review feeds failed
+  error?: ErrorResponse;
+}
+
+export interface CompareResponse {
+  app_id: string;
+  country: string;
+  primary: ComparedApp;
+  competitors: ComparedApp[];
+  generated_at: string;
+}
+
+// Machine-readable error codes. RATE_LIMITED is this API's own limit,
+// UPSTREAM_RATE_LIMITED an upstream API's.
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'QUOTA_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'BAD_GATEWAY'
+  | 'INTERNAL_ERROR';
 
 export interface ErrorResponse {
   error: string;
+  code: ErrorCode;
   message?: string;
   app_id?: string;
   timestamp: string;
 }
+
+/**
+ * An API key as configured in API_KEYS or API_KEYS_FILE. Either the key itself
+ * or its SHA-256 hex digest may be given.
+ */
+export interface ApiKeyConfig {
+  key?: string;
+  key_sha256?: string;
+  name?: string;
+  daily_quota?: number; // Requests per UTC day; unset or 0 for unlimited
+  allowed_origins?: string[]; // Browser origins allowed to use the key; unset for any
+}
+
+export interface ApiKey {
+  id: string; // Short prefix of the key hash, safe to log
+  name: string;
+  daily_quota?: number;
+  allowed_origins?: string[];
+}
+
+export interface ApiUsageResponse {
+  key_id: string;
+  key_name: string;
+  daily_quota: number | null; // null when unlimited
+  used_today: number;
+  remaining_today: number | null;
+  resets_at: string; // Next UTC midnight
+  allowed_origins?: string[];
+  generated_at: string;
+}
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import { ApiKey, ApiKeyConfig, Env } from '../types';
+import { Logger } from './logger';
+
+/**
+ * Lookup of API keys. Implement this to keep keys in a database or secrets
+ * service instead of the environment.
+ */
+export interface ApiKeyStore {
+  /**
+   * Whether any keys are configured; when none are, the API stays open
+   */
+  isEnabled(): boolean;
+
+  find(apiKey: string): Promise<ApiKey | undefined>;
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Keys from API_KEYS and API_KEYS_FILE. The file is re-read when it changes, so
+ * keys can be added or revoked without a restart. Only key hashes are kept in
+ * memory. A configuration that cannot be parsed yields no keys, which rejects
+ * every request rather than leaving the API open.
+ */
+export class ConfigApiKeyStore implements ApiKeyStore {
+  private envKeys: Map<string, ApiKey>;
+  private fileKeys = new Map<string, ApiKey>();
+  private fileMtimeMs?: number;
+
+  constructor(private env: Env) {
+    this.envKeys = env.API_KEYS ? ConfigApiKeyStore.parse(env.API_KEYS, 'API_KEYS') : new Map();
+  }
+
+  isEnabled(): boolean {
+    return Boolean(this.env.API_KEYS || this.env.API_KEYS_FILE);
+  }
+
+  async find(apiKey: string): Promise<ApiKey | undefined> {
+    const hash = hashApiKey(apiKey);
+    return this.envKeys.get(hash) ?? this.getFileKeys().get(hash);
+  }
+
+  private getFileKeys(): Map<string, ApiKey> {
+    const filePath = this.env.API_KEYS_FILE;
+    if (!filePath) {
+      return this.fileKeys;
+    }
+
+    try {
+      const { mtimeMs } = fs.statSync(filePath);
+      if (mtimeMs !== this.fileMtimeMs) {
+        this.fileKeys = ConfigApiKeyStore.parse(fs.readFileSync(filePath, 'utf8'), filePath);
+        this.fileMtimeMs = mtimeMs;
+      }
+    } catch (error) {
+      Logger.error('Failed to read API keys file', 'API_KEYS', { path: filePath }, error as Error);
+      this.fileKeys = new Map();
+      this.fileMtimeMs = undefined;
+    }
+
+    return this.fileKeys;
+  }
+
+  /**
+   * Parse a JSON array of key configs, or a comma-separated list of plain keys
+   */
+  static parse(value: string, origin: string): Map<string, ApiKey> {
+    const keys = new Map<string, ApiKey>();
+    let configs: ApiKeyConfig[];
+
+    try {
+      configs = value.trim().startsWith('[')
+        ? JSON.parse(value)
+        : value.split(',').map(key => key.trim()).filter(Boolean).map(key => ({ key }));
+    } catch (error) {
+      Logger.error('Invalid API key configuration', 'API_KEYS', { origin }, error as Error);
+      return keys;
+    }
+
+    for (const [index, config] of configs.entries()) {
+      const hash = config?.key_sha256?.toLowerCase() ?? (config?.key ? hashApiKey(config.key) : undefined);
+      if (!hash) {
+        Logger.warn('Skipping API key without key or key_sha256', 'API_KEYS', { origin, index });
+        continue;
+      }
+
+      const id = hash.substring(0, 12);
+      keys.set(hash, {
+        id,
+        name: config.name || `key-${id}`,
+        daily_quota: config.daily_quota,
+        allowed_origins: config.allowed_origins
+      });
+    }
+
+    return keys;
+  }
+}
+
+let defaultApiKeyStore: ApiKeyStore | undefined;
+
+/**
+ * Store built from the environment, shared across requests for the lifetime of
+ * the server process so that the keys file is only re-read when it changes
+ */
+export function getDefaultApiKeyStore(env: Env): ApiKeyStore {
+  defaultApiKeyStore = defaultApiKeyStore ?? new ConfigApiKeyStore(env);
+  return defaultApiKeyStore;
+}
@@ -0,0 +1,74 @@
+import { AppMetadata, AppReview, ComparedApp, WeeklyReviewVolume } from '../types';
+import { ReviewStats } from './review-stats';
+import { ReviewAnalyzer } from './review-analyzer';
+
+export class AppComparison {
+  private static readonly WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+  private static readonly MAX_COMPLAINT_KEYWORDS = 10;
+
+  /**
+   * Figures of one app for a side-by-side comparison, from its metadata and
+   * fetched reviews. Time windows are relative to `now`.
+   */
+  static summarize(metadata: AppMetadata, reviews: AppReview[], language?: string, now: Date = new Date()): ComparedApp {
+    const stats = ReviewStats.compute(reviews, now);
+
+    return {
+      app_id: metadata.app_id,
+      success: true,
+      name: metadata.name,
+      platform: metadata.platform,
+      rating: metadata.rating,
+      rating_count: metadata.rating_count,
+      recent_average_rating: stats.rating_windows.last_30_days.average_rating,
+      rating_distribution: stats.rating_distribution,
+      review_count: reviews.length,
+      weekly_volume: stats.weekly_volume,
+      average_weekly_reviews: this.averageWeeklyReviews(stats.weekly_volume),
+      complaint_keywords: ReviewAnalyzer.complaintKeywords(reviews, language, this.MAX_COMPLAINT_KEYWORDS)
+    };
+  }
+
+  /**
+   * Add a competitor's differences to the primary app. Failed apps are left as they are.
+   */
+  static withDeltas(primary: ComparedApp, competitor: ComparedApp): ComparedApp {
+    if (!competitor.success) {
+      return competitor;
+    }
+
+    const recent = competitor.recent_average_rating ?? null;
+    const primaryRecent = primary.recent_average_rating ?? null;
+
+    return {
+      ...competitor,
+      deltas: {
+        rating: this.round(competitor.rating! - primary.rating!),
+        rating_count: competitor.rating_count! - primary.rating_count!,
+        recent_average_rating: recent !== null && primaryRecent !== null ? this.round(recent - primaryRecent) : null,
+        average_weekly_reviews: this.round(competitor.average_weekly_reviews! - primary.average_weekly_reviews!)
+      }
+    };
+  }
+
+  /**
+   * Reviews per week over the weeks from the first to the last review,
+   * counting weeks without reviews
+   */
+  private static averageWeeklyReviews(weeklyVolume: WeeklyReviewVolume[]): number {
+    if (weeklyVolume.length === 0) {
+      return 0;
+    }
+
+    const first = Date.parse(weeklyVolume[0].week_start);
+    const last = Date.parse(weeklyVolume[weeklyVolume.length - 1].week_start);
+    const weeks = Math.round((last - first) / this.WEEK_MS) + 1;
+    const total = weeklyVolume.reduce((sum, week) => sum + week.review_count, 0);
+
+    return this.round(total / weeks);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
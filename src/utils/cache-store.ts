@@ -0,0 +1,52 @@
+/**
+ * Minimal key-value store used by the response cache. Implement this to back
+ * the cache with a shared store (e.g. KV or Redis) instead of process memory.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process cache store. Entries expire after their TTL and the oldest
+ * entries are evicted once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expires_at: number }>();
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() >= entry.expires_at) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Hand out copies so callers cannot mutate cached values
+    return structuredClone(entry.value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+
+    while (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      this.entries.delete(oldestKey);
+    }
+
+    this.entries.set(key, { value: structuredClone(value), expires_at: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Shared across requests for the lifetime of the server process
+export const defaultCacheStore = new MemoryCacheStore();
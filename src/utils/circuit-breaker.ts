@@ -0,0 +1,95 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  host: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: string;
+  last_failure_at?: string;
+}
+
+/**
+ * Per-host circuit breaker. After `failureThreshold` consecutive failures the
+ * circuit opens and requests fail fast; once `cooldownMs` has passed a single
+ * trial request is let through (half open) and its outcome closes or re-opens it.
+ */
+export class CircuitBreaker {
+  // Shared across requests for the lifetime of the server process
+  private static breakers = new Map<string, CircuitBreaker>();
+
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private lastFailureAt?: number;
+  private trialInFlight = false;
+
+  private constructor(readonly host: string, private options: CircuitBreakerOptions) {}
+
+  static forHost(host: string, options: CircuitBreakerOptions): CircuitBreaker {
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = new CircuitBreaker(host, options);
+      this.breakers.set(host, breaker);
+    }
+    return breaker;
+  }
+
+  static getStatuses(): CircuitBreakerStatus[] {
+    return Array.from(this.breakers.values()).map(breaker => breaker.getStatus());
+  }
+
+  /**
+   * Whether a request may be sent now. Moves an open circuit to half open once
+   * the cooldown has elapsed and admits one trial request.
+   */
+  canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - (this.openedAt ?? 0) >= this.options.cooldownMs) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    this.lastFailureAt = now;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+      this.trialInFlight = false;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      host: this.host,
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      opened_at: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      last_failure_at: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : undefined
+    };
+  }
+}
@@ -0,0 +1,22 @@
+export class Concurrency {
+  /**
+   * Map over items with at most `limit` calls to `fn` in flight at once.
+   * Results are returned in the same order as the input items.
+   */
+  static async map<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await fn(items[index], index);
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    return results;
+  }
+}
@@ -0,0 +1,33 @@
+import { Env } from '../types';
+
+/**
+ * Build the runtime environment configuration from process.env
+ */
+export function getEnv(): Env {
+  return {
+    ENVIRONMENT: process.env.ENVIRONMENT || 'development',
+    MAX_REVIEWS_PER_APP: process.env.MAX_REVIEWS_PER_APP || '200',
+    REQUEST_TIMEOUT_MS: process.env.REQUEST_TIMEOUT_MS || '10000',
+    RATE_LIMIT_REQUESTS_PER_MINUTE: process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || '60',
+    ASO_MARKET_API_URL: process.env.ASO_MARKET_API_URL,
+    CACHE_METADATA_TTL_SECONDS: process.env.CACHE_METADATA_TTL_SECONDS,
+    CACHE_REVIEWS_TTL_SECONDS: process.env.CACHE_REVIEWS_TTL_SECONDS,
+    CACHE_STALE_SECONDS: process.env.CACHE_STALE_SECONDS,
+    UPSTREAM_MAX_RETRIES: process.env.UPSTREAM_MAX_RETRIES,
+    CIRCUIT_BREAKER_FAILURE_THRESHOLD: process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+    CIRCUIT_BREAKER_COOLDOWN_MS: process.env.CIRCUIT_BREAKER_COOLDOWN_MS,
+    STORAGE_PATH: process.env.STORAGE_PATH,
+    API_KEYS: process.env.API_KEYS,
+    API_KEYS_FILE: process.env.API_KEYS_FILE,
+    UPSTREAM_FIXTURES_MODE: process.env.UPSTREAM_FIXTURES_MODE,
+    UPSTREAM_FIXTURES_DIR: process.env.UPSTREAM_FIXTURES_DIR
+  };
+}
+
+/**
+ * Parse a numeric environment value, falling back when it is unset or not a number
+ */
+export function getNumericEnv(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
@@ -1,5 +1,6 @@
-import { ErrorResponse } from '../types';
+import { ErrorCode, ErrorResponse } from '../types';
 import { Logger } from './logger';
+import { ApiError } from './errors';
 
 export class ErrorHandler {
   static createError(message: string, originalError?: any): Error {
@@ -11,38 +12,68 @@ export class ErrorHandler {
   }
 
   static createErrorResponse(
-    error: string, 
-    message?: string, 
+    code: ErrorCode,
+    error: string,
+    message?: string,
     app_id?: string
   ): ErrorResponse {
     return {
       error,
+      code,
       message,
       app_id,
       timestamp: new Date().toISOString()
     };
   }
 
+  /**
+   * Build the response body for an error. ApiErrors keep their code; client
+   * errors are logged as warnings since they are not failures of this API.
+   * Pair with getStatusCode for the HTTP status.
+   */
   static handleError(error: any, context: string, app_id?: string): ErrorResponse {
+    if (error instanceof ApiError) {
+      if (error.status < 500) {
+        Logger.warn(error.title, context, { app_id, code: error.code, error: error.message });
+      } else {
+        Logger.error(error.title, context, { app_id, code: error.code }, error);
+      }
+      return this.createErrorResponse(error.code, error.title, error.message, app_id);
+    }
+
     Logger.error('Error occurred', context, { app_id }, error as Error);
-    
+
     if (error instanceof Error) {
       return this.createErrorResponse(
+        'INTERNAL_ERROR',
         'Internal Server Error',
         error.message,
         app_id
       );
     }
-    
+
     return this.createErrorResponse(
+      'INTERNAL_ERROR',
       'Unknown Error',
       'An unexpected error occurred',
       app_id
     );
   }
 
+  /**
+   * HTTP status for an error passed to handleError:
+   * 400, 404, 429, 502 and 504 for ApiErrors, 500 for anything else
+   */
+  static getStatusCode(error: any): number {
+    return error instanceof ApiError ? error.status : 500;
+  }
+
+  static getErrorCode(error: any): ErrorCode {
+    return error instanceof ApiError ? error.code : 'INTERNAL_ERROR';
+  }
+
   static isNetworkError(error: any): boolean {
-    return error?.message?.includes('fetch') || 
+    return error?.message?.includes('fetch') ||
            error?.message?.includes('network') ||
            error?.message?.includes('timeout');
   }
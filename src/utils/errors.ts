@@ -0,0 +1,73 @@
+import { ErrorCode } from '../types';
+
+/**
+ * Base class for errors that map to a specific HTTP status. ErrorHandler turns
+ * them into an ErrorResponse with their `code`; any other error is a 500.
+ */
+export abstract class ApiError extends Error {
+  abstract readonly status: number;
+  abstract readonly code: ErrorCode;
+  // Short label used as the `error` field of the response
+  abstract readonly title: string;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = new.target.name;
+    if (options?.cause !== undefined) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+export class NotFoundError extends ApiError {
+  readonly status = 404;
+  readonly code = 'NOT_FOUND' as const;
+  readonly title = 'Not Found';
+}
+
+/**
+ * The app does not exist, or is not sold in the requested storefront
+ */
+export class AppNotFoundError extends NotFoundError {
+  constructor(readonly appId: string, readonly country?: string, store: string = 'App Store') {
+    super(country
+      ? `App ${appId} is not available in the ${country.toUpperCase()} ${store}`
+      : `App ${appId} not found in ${store}`);
+  }
+}
+
+/**
+ * The request is malformed or has invalid parameters
+ */
+export class ValidationError extends ApiError {
+  readonly status = 400;
+  readonly code = 'VALIDATION_ERROR' as const;
+  readonly title = 'Validation Error';
+}
+
+/**
+ * An upstream request timed out, after retries
+ */
+export class UpstreamTimeoutError extends ApiError {
+  readonly status = 504;
+  readonly code = 'UPSTREAM_TIMEOUT' as const;
+  readonly title = 'Gateway Timeout';
+}
+
+/**
+ * An upstream API kept answering 429 Too Many Requests
+ */
+export class UpstreamRateLimitError extends ApiError {
+  readonly status = 429;
+  readonly code = 'UPSTREAM_RATE_LIMITED' as const;
+  readonly title = 'Too Many Requests';
+}
+
+/**
+ * An upstream API failed, was unreachable or returned an unusable response
+ */
+export class BadGatewayError extends ApiError {
+  readonly status = 502;
+  readonly code = 'BAD_GATEWAY' as const;
+  readonly title = 'Bad Gateway';
+}
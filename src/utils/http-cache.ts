@@ -0,0 +1,31 @@
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+
+export class HttpCache {
+  /**
+   * Weak ETag over the response body. `generated_at` is left out so that
+   * identical cached data produces the same ETag on every request.
+   */
+  static createETag(body: Record<string, any>): string {
+    const { generated_at, ...content } = body;
+    const hash = createHash('sha1').update(JSON.stringify(content)).digest('base64url');
+    return `W/"${hash}"`;
+  }
+
+  static isNotModified(request: NextRequest, etag: string): boolean {
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (!ifNoneMatch) {
+      return false;
+    }
+
+    return ifNoneMatch.split(',').some(tag => tag.trim() === etag || tag.trim() === '*');
+  }
+
+  static cacheControl(maxAgeSeconds: number, staleSeconds: number): string {
+    if (maxAgeSeconds <= 0) {
+      return 'no-store';
+    }
+
+    return `public, max-age=${maxAgeSeconds}, stale-while-revalidate=${staleSeconds}`;
+  }
+}
@@ -0,0 +1,114 @@
+import { SentimentLexicon } from '../../types';
+
+/**
+ * English lexicon for the review analyzer. Valences follow the AFINN scale
+ * (-5 to 5) and are tuned for app reviews.
+ */
+export const ENGLISH_LEXICON: SentimentLexicon = {
+  language: 'en',
+  storefronts: ['us', 'gb', 'au', 'ca', 'ie', 'nz', 'za', 'sg', 'in', 'ph', 'ng', 'ke', 'gh', 'jm', 'tt'],
+
+  words: {
+    // Positive
+    'amazing': 4, 'awesome': 4, 'excellent': 4, 'fantastic': 4, 'outstanding': 5, 'superb': 5,
+    'brilliant': 4, 'wonderful': 4, 'perfect': 4, 'perfectly': 3, 'incredible': 4, 'phenomenal': 4,
+    'love': 3, 'loved': 3, 'loving': 3, 'loves': 3, 'lovely': 3, 'best': 3, 'great': 3, 'greatest': 3,
+    'good': 2, 'nice': 2, 'fine': 1, 'decent': 1, 'solid': 2, 'cool': 2, 'fun': 2, 'enjoy*': 2,
+    'like': 1, 'liked': 2, 'likes': 1, 'happy': 3, 'glad': 2, 'pleased': 2, 'satisfied': 2,
+    'recommend*': 2, 'helpful': 2, 'useful': 2, 'handy': 2, 'convenient': 2, 'reliable': 2,
+    'easy': 2, 'easier': 2, 'simple': 1, 'intuitive': 2, 'smooth*': 2, 'fast': 2, 'quick*': 1,
+    'responsive': 2, 'clean': 2, 'beautiful*': 3, 'gorgeous': 3, 'elegant': 2, 'polished': 2,
+    'stable': 2, 'works': 1, 'worked': 1, 'working': 1, 'fixed': 1, 'improved': 2, 'improvement*': 2,
+    'thank*': 2, 'appreciate*': 2, 'worth': 2, 'favorite': 2, 'favourite': 2,
+    'lifesaver': 3, 'efficient': 2, 'accurate': 2, 'impressive': 3, 'impressed': 3, 'friendly': 2,
+    'superior': 2, 'flawless*': 4, 'seamless*': 3, 'addictive': 2, 'wow': 3, 'yay': 2,
+
+    // Negative
+    'terrible': -4, 'horrible': -4, 'awful': -4, 'worst': -4, 'useless': -3, 'garbage': -4,
+    'trash': -4, 'rubbish': -3, 'crap': -3, 'crappy': -3, 'junk': -3, 'pathetic': -3, 'ridiculous': -3,
+    'hate*': -3, 'bad': -3, 'worse': -3, 'poor': -2, 'poorly': -2, 'disappoint*': -2, 'annoy*': -2,
+    'frustrat*': -2, 'irritat*': -2, 'angry': -3, 'upset': -2, 'sad': -2, 'unhappy': -2, 'sucks': -3,
+    'boring': -2, 'mediocre': -1, 'meh': -1, 'broken': -3, 'broke': -2, 'bug': -2, 'bugs': -2,
+    'buggy': -3, 'glitch*': -2, 'crash*': -3, 'freez*': -2, 'froze': -2, 'frozen': -2, 'lag*': -2,
+    'slow*': -2, 'sluggish': -2, 'unusable': -4, 'unreliable': -3, 'unstable': -2, 'fail*': -2,
+    'error*': -2, 'problem*': -2, 'issue*': -1, 'confusing': -2, 'confused': -2, 'complicated': -2,
+    'clunky': -2, 'cluttered': -2, 'ugly': -3, 'waste': -3, 'wasted': -3, 'scam*': -4,
+    'ripoff': -4, 'overpriced': -3, 'expensive': -2, 'greedy': -3, 'misleading': -3, 'fake': -3,
+    'spam*': -2, 'intrusive': -2, 'invasive': -2, 'unacceptable': -3, 'uninstall*': -2,
+    'deleted': -1, 'delete': -1, 'refund*': -2, 'lost': -2, 'lose': -2, 'losing': -2, 'missing': -1,
+    'difficult': -1, 'impossible': -2, 'drain*': -2, 'forever': -1, 'stuck': -2, 'wrong': -2,
+    'inaccurate': -2, 'horrendous': -4, 'disgusting': -4, 'nightmare': -3, 'joke': -2, 'lame': -2,
+    'stupid': -3, 'dumb': -2, 'worthless': -4, 'nonexistent': -2, 'ignored': -2, 'ignore': -1,
+    'unresponsive': -3, 'ruin*': -3, 'worsened': -2, 'downgrade': -2, 'regret*': -2
+  },
+
+  negations: [
+    'not', 'no', 'never', 'nothing', 'none', 'nor', 'neither', 'without', 'hardly', 'barely',
+    'cannot', "can't", 'cant', "don't", 'dont', "doesn't", 'doesnt', "didn't", 'didnt',
+    "isn't", 'isnt', "wasn't", 'wasnt', "aren't", 'arent', "weren't", "won't", 'wont',
+    "wouldn't", 'wouldnt', "couldn't", 'couldnt', "shouldn't", "haven't", "hasn't", "ain't"
+  ],
+
+  intensifiers: {
+    'very': 1.3, 'really': 1.3, 'so': 1.2, 'extremely': 1.5, 'incredibly': 1.5, 'super': 1.3,
+    'totally': 1.3, 'absolutely': 1.4, 'completely': 1.4, 'truly': 1.3, 'highly': 1.3,
+    'especially': 1.2, 'most': 1.2, 'too': 1.2, 'quite': 1.1, 'pretty': 1.1, 'slightly': 0.6,
+    'somewhat': 0.7, 'bit': 0.7, 'kinda': 0.8, 'kind': 0.8, 'sort': 0.8, 'mostly': 0.8
+  },
+
+  contrasts: ['but', 'however', 'although', 'though', 'yet'],
+
+  stopwords: [
+    'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'app', 'apps', 'are',
+    'as', 'at', 'be', 'because', 'been', 'before', 'being', 'both', 'but', 'by', 'can', 'could',
+    'did', 'do', 'does', 'doing', 'even', 'every', 'for', 'from', 'get', 'gets', 'got', 'had',
+    'has', 'have', 'having', 'he', 'her', 'here', 'him', 'his', 'how', 'i', "i'm", "i've", 'if',
+    'im', 'in', 'into', 'is', 'it', "it's", 'its', 'just', 'many', 'me', 'more', 'much', 'my', 'now', 'of',
+    'on', 'once', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'please', 'same', 'she',
+    'should', 'since', 'so', 'some', 'still', 'such', 'than', 'that', "that's", 'the', 'their',
+    'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'time', 'to', 'too',
+    'up', 'use', 'used', 'using', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+    'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your', 'really', 'thing', 'things',
+    'way', 'make', 'makes', 'made', 'want', 'need', 'well', 'back', 'anything'
+  ],
+
+  topics: {
+    stability: [
+      'crash*', 'freez*', 'froze', 'frozen', 'glitch*', 'bug', 'bugs', 'buggy', 'broken', 'stable',
+      'unstable', 'force close*', 'keeps closing', 'shuts down', 'not working', 'stopped working',
+      "doesn't work", "won't open", 'black screen', 'white screen'
+    ],
+    performance: [
+      'slow*', 'lag*', 'sluggish', 'fast', 'speed', 'loading', 'load time*', 'takes forever',
+      'responsive', 'unresponsive', 'smooth*', 'battery', 'drain*', 'performance', 'storage'
+    ],
+    login: [
+      'login*', 'log in', 'logged out', 'logging in', 'sign in', 'signing in', 'password*',
+      'account*', 'authenticat*', 'two factor', 'verification', 'verify', 'face id', 'touch id'
+    ],
+    ads: ['ad', 'ads', 'advert*', 'commercial*', 'popup*', 'pop up*', 'banner*'],
+    pricing: [
+      'price*', 'pricing', 'expensive', 'cheap*', 'overpriced', 'subscription*', 'subscribe*',
+      'paywall*', 'pay', 'paid', 'paying', 'premium', 'refund*', 'charged', 'money', 'cost*',
+      'free trial', 'in app purchase*', 'scam*', 'rip off', 'ripoff'
+    ],
+    design: [
+      'design*', 'interface', 'ui', 'ux', 'layout*', 'theme*', 'dark mode', 'font*', 'color*',
+      'colour*', 'icon*', 'beautiful*', 'ugly', 'clean', 'cluttered', 'gorgeous', 'elegant'
+    ],
+    usability: [
+      'easy', 'easier', 'simple', 'intuitive', 'user friendly', 'confusing', 'complicated',
+      'clunky', 'easy to use', 'hard to use', 'usability', 'navigation', 'navigate', 'menu*'
+    ],
+    updates: ['update*', 'new version', 'latest version', 'upgrade*', 'downgrade'],
+    support: [
+      'customer service', 'customer support', 'support team', 'help desk', 'helpdesk',
+      'respond*', 'response*', 'contacted', 'no reply', 'developer*'
+    ],
+    notifications: ['notification*', 'notif*', 'alert*', 'reminder*'],
+    sync: ['sync*', 'backup*', 'back up', 'cloud', 'restore*', 'lost my data', 'lost all'],
+    connectivity: ['connect*', 'connection*', 'offline', 'wifi', 'wi fi', 'network', 'server*', 'bluetooth'],
+    privacy: ['privacy', 'personal data', 'tracking', 'tracker*', 'permission*', 'security', 'secure'],
+    features: ['feature*', 'function*', 'functionality', 'option*', 'setting*', 'widget*', 'tool*']
+  }
+};
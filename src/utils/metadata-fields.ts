@@ -0,0 +1,56 @@
+import { AppMetadata } from '../types';
+
+export class MetadataFields {
+  static readonly FIELDS: (keyof AppMetadata)[] = [
+    'app_id',
+    'name',
+    'rating',
+    'rating_count',
+    'reviews_count',
+    'url',
+    'platform',
+    'last_updated',
+    'country',
+    'bundle_id',
+    'description',
+    'version',
+    'release_notes',
+    'release_date',
+    'current_version_release_date',
+    'current_version_rating',
+    'current_version_rating_count',
+    'genres',
+    'primary_genre',
+    'developer_name',
+    'developer_id',
+    'price',
+    'currency',
+    'formatted_price',
+    'content_rating',
+    'file_size_bytes',
+    'installs',
+    'minimum_os_version',
+    'supported_devices',
+    'languages',
+    'icon_urls',
+    'screenshotUrls',
+    'ipadScreenshotUrls',
+    'appletvScreenshotUrls'
+  ];
+
+  /**
+   * Keep only the requested fields of the metadata. `app_id` is always kept so
+   * that sparse metadata can still be matched to its app.
+   */
+  static pick(metadata: Partial<AppMetadata>, fields: string[]): Partial<AppMetadata> {
+    const sparse: Record<string, unknown> = { app_id: metadata.app_id };
+
+    for (const field of fields) {
+      if (field in metadata) {
+        sparse[field] = metadata[field as keyof AppMetadata];
+      }
+    }
+
+    return sparse as Partial<AppMetadata>;
+  }
+}
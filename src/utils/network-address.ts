@@ -0,0 +1,107 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+/**
+ * Checks that outbound requests made on behalf of clients (webhook deliveries)
+ * only go to public hosts, so that the server cannot be used to reach
+ * loopback, private networks or cloud metadata endpoints.
+ */
+export class NetworkAddress {
+  private static readonly BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+  private static readonly BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.internal', '.local'];
+
+  private static readonly blockList = NetworkAddress.createBlockList();
+
+  private static createBlockList(): BlockList {
+    const blockList = new BlockList();
+    const ipv4: Array<[string, number]> = [
+      ['0.0.0.0', 8], // "This" network
+      ['10.0.0.0', 8], // Private
+      ['100.64.0.0', 10], // Carrier-grade NAT
+      ['127.0.0.0', 8], // Loopback
+      ['169.254.0.0', 16], // Link-local, including cloud metadata (169.254.169.254)
+      ['172.16.0.0', 12], // Private
+      ['192.0.0.0', 24], // IETF protocol assignments
+      ['192.0.2.0', 24], // Documentation
+      ['192.168.0.0', 16], // Private
+      ['198.18.0.0', 15], // Benchmarking
+      ['198.51.100.0', 24], // Documentation
+      ['203.0.113.0', 24], // Documentation
+      ['224.0.0.0', 4], // Multicast
+      ['240.0.0.0', 4] // Reserved and broadcast
+    ];
+    const ipv6: Array<[string, number]> = [
+      ['::', 128], // Unspecified
+      ['::1', 128], // Loopback
+      ['64:ff9b::', 96], // NAT64
+      ['100::', 64], // Discard
+      ['2001:db8::', 32], // Documentation
+      ['fc00::', 7], // Unique local, including AWS metadata (fd00:ec2::254)
+      ['fe80::', 10], // Link-local
+      ['ff00::', 8] // Multicast
+    ];
+
+    for (const [network, prefix] of ipv4) {
+      blockList.addSubnet(network, prefix, 'ipv4');
+    }
+    for (const [network, prefix] of ipv6) {
+      blockList.addSubnet(network, prefix, 'ipv6');
+    }
+    return blockList;
+  }
+
+  /**
+   * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses are
+   * checked as IPv4.
+   */
+  static isPublicAddress(address: string): boolean {
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+      return NetworkAddress.isPublicAddress(mapped[1]);
+    }
+
+    const version = isIP(address);
+    if (version === 0) {
+      return false;
+    }
+    return !NetworkAddress.blockList.check(address, version === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  /**
+   * Whether a URL hostname may be public, without resolving it: literal IP
+   * addresses must be public and local-only names are rejected
+   */
+  static isPublicHostname(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+    if (!host) {
+      return false;
+    }
+    if (isIP(host)) {
+      return NetworkAddress.isPublicAddress(host);
+    }
+    return !NetworkAddress.BLOCKED_HOSTNAMES.includes(host) &&
+           !NetworkAddress.BLOCKED_HOSTNAME_SUFFIXES.some(suffix => host.endsWith(suffix)) &&
+           host.includes('.');
+  }
+
+  /**
+   * Resolve a hostname and check that every address it resolves to is public.
+   * Rejects with the reason when it is not.
+   */
+  static async assertPublicHost(hostname: string): Promise<void> {
+    if (!NetworkAddress.isPublicHostname(hostname)) {
+      throw new Error(`Host ${hostname} is not a public address`);
+    }
+
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host)) {
+      return;
+    }
+
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    const blocked = addresses.find(({ address }) => !NetworkAddress.isPublicAddress(address));
+    if (addresses.length === 0 || blocked) {
+      throw new Error(`Host ${hostname} resolves to a non-public address${blocked ? ` (${blocked.address})` : ''}`);
+    }
+  }
+}
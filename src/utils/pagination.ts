@@ -0,0 +1,54 @@
+import { PaginationInfo } from '../types';
+
+export class Pagination {
+  static readonly DEFAULT_PAGE_SIZE = 50;
+
+  /**
+   * Encode a result offset as an opaque cursor string
+   */
+  static encodeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+  }
+
+  /**
+   * Decode a cursor produced by encodeCursor, returning null if it is malformed
+   */
+  static decodeCursor(cursor: string): number | null {
+    try {
+      const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      return Number.isInteger(offset) && offset >= 0 ? offset : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Slice one page out of items. A cursor takes precedence over a page number.
+   */
+  static paginate<T>(
+    items: T[],
+    options: { page?: number; page_size?: number; cursor?: string }
+  ): { items: T[]; pagination: PaginationInfo } {
+    const pageSize = options.page_size || this.DEFAULT_PAGE_SIZE;
+    const cursorOffset = options.cursor ? this.decodeCursor(options.cursor) : null;
+    const offset = cursorOffset ?? ((options.page || 1) - 1) * pageSize;
+    const nextOffset = offset + pageSize;
+    const hasMore = nextOffset < items.length;
+
+    return {
+      items: items.slice(offset, nextOffset),
+      pagination: {
+        page: Math.floor(offset / pageSize) + 1,
+        page_size: pageSize,
+        total_pages: Math.ceil(items.length / pageSize),
+        total_items: items.length,
+        has_more: hasMore,
+        next_cursor: hasMore ? this.encodeCursor(nextOffset) : undefined
+      }
+    };
+  }
+
+  static isRequested(options: { page?: number; page_size?: number; cursor?: string }): boolean {
+    return options.page !== undefined || options.page_size !== undefined || options.cursor !== undefined;
+  }
+}
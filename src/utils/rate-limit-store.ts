@@ -0,0 +1,51 @@
+/**
+ * Counter store used by the rate limiter. Implement this to share rate limit
+ * state between instances (e.g. Redis INCR + EXPIRE) instead of process memory.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<number>;
+  /**
+   * Add `amount` (default 1) to a counter and resolve to its new value
+   */
+  increment(key: string, ttlSeconds: number, amount?: number): Promise<number>;
+}
+
+/**
+ * In-process counter store. Counters expire after their TTL.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expires_at: number }>();
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    if (!counter || Date.now() >= counter.expires_at) {
+      return 0;
+    }
+    return counter.count;
+  }
+
+  async increment(key: string, ttlSeconds: number, amount: number = 1): Promise<number> {
+    const now = Date.now();
+    this.removeExpired(now);
+
+    const counter = this.counters.get(key);
+    if (!counter || now >= counter.expires_at) {
+      this.counters.set(key, { count: amount, expires_at: now + ttlSeconds * 1000 });
+      return amount;
+    }
+
+    counter.count += amount;
+    return counter.count;
+  }
+
+  private removeExpired(now: number): void {
+    for (const [key, counter] of this.counters) {
+      if (now >= counter.expires_at) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+// Shared across requests for the lifetime of the server process
+export const defaultRateLimitStore = new MemoryRateLimitStore();
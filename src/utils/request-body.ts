@@ -0,0 +1,22 @@
+import { ValidationError } from './errors';
+
+export class RequestBody {
+  /**
+   * Parse a JSON request body. A malformed body is a ValidationError (400)
+   * rather than a server error. An empty body resolves to `emptyValue` when one
+   * is given, for endpoints whose body is optional.
+   */
+  static async json<T>(request: Request, emptyValue?: T): Promise<T> {
+    const body = await request.text();
+
+    if (!body.trim() && emptyValue !== undefined) {
+      return emptyValue;
+    }
+
+    try {
+      return JSON.parse(body) as T;
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+  }
+}
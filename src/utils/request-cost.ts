@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { Validators } from './validators';
+import { RequestBody } from './request-body';
+
+export class RequestCost {
+  /**
+   * Cost of a reviews request for the rate limiter and quotas: one per
+   * requested storefront, since each is fetched separately upstream, so
+   * `country=all` costs as many units as there are storefronts. The
+   * storefronts are read from the `country` query parameter, or from the JSON
+   * body of a POST request (which stays readable for the handler). Requests
+   * that fail validation later cost 1.
+   */
+  static async countries(request: NextRequest): Promise<number> {
+    return this.countCountries((await this.readParams(request)).country);
+  }
+
+  /**
+   * Cost of a request that fetches several apps: one per app and storefront.
+   * The apps are the `app_ids` and `bundle_ids` of a batch request, or the
+   * `app_id` and `competitors` of a comparison. Lists longer than a request
+   * may ask for are rejected by validation and cost the maximum.
+   */
+  static async apps(request: NextRequest): Promise<number> {
+    const params = await this.readParams(request);
+    const batch = [params.app_ids, params.bundle_ids].filter(Array.isArray);
+    const competitors = Validators.splitList(typeof params.competitors === 'string' ? params.competitors : undefined);
+
+    const apps = batch.length > 0
+      ? Math.min(batch.reduce((count, ids) => count + ids.length, 0), Validators.MAX_APPS_PER_BATCH)
+      : 1 + Math.min(competitors.length, Validators.MAX_COMPETITORS);
+
+    return Math.max(apps, 1) * this.countCountries(params.country);
+  }
+
+  private static countCountries(country: unknown): number {
+    if (typeof country !== 'string' && !Array.isArray(country)) {
+      return 1;
+    }
+
+    const count = Validators.parseCountries(country as string | string[]).length;
+    // Longer explicit lists are rejected by validation
+    return Validators.isAllCountries(country as string | string[])
+      ? count
+      : Math.min(Math.max(count, 1), Validators.MAX_COUNTRIES_PER_REQUEST);
+  }
+
+  /**
+   * Query parameters, or the JSON body of a POST request
+   */
+  private static async readParams(request: NextRequest): Promise<Record<string, any>> {
+    if (request.method === 'POST') {
+      const body = await RequestBody.json<any>(request.clone(), {}).catch(() => undefined);
+      return Validators.isPlainObject(body) ? body : {};
+    }
+
+    return Object.fromEntries(new URL(request.url).searchParams);
+  }
+}
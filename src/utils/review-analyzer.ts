@@ -0,0 +1,424 @@
+import {
+  AppReview,
+  ComplaintKeyword,
+  ReviewAnalysisSummary,
+  ReviewTextAnalysis,
+  ReviewTopicMention,
+  ReviewTopicSummary,
+  SentimentLabel,
+  SentimentLexicon,
+  SentimentMismatch
+} from '../types';
+import { ENGLISH_LEXICON } from './lexicons/english';
+
+interface CompiledLexicon {
+  lexicon: SentimentLexicon;
+  words: Map<string, number>;
+  wordPrefixes: [string, number][]; // Longest prefix first
+  negations: Set<string>;
+  intensifiers: Map<string, number>;
+  contrasts: Set<string>;
+  ignored: Set<string>; // Never reported as keywords
+  topics: { topic: string; phrases: string[][] }[];
+}
+
+interface TopicTotals {
+  review_count: number;
+  rating_total: number;
+  review_ids: string[];
+}
+
+/**
+ * Lexicon-based sentiment and topic analysis of review text. Everything runs
+ * locally: each sentence is scored from word valences, adjusted for negations,
+ * intensifiers and contrasts, and the topics a clause mentions take on its
+ * sentiment.
+ */
+export class ReviewAnalyzer {
+  // Scores are normalized to -1..1 with x / sqrt(x² + ALPHA)
+  private static readonly ALPHA = 15;
+  private static readonly NEUTRAL_THRESHOLD = 0.05;
+  private static readonly NEGATION_FACTOR = -0.74;
+  private static readonly NEGATION_SCOPE = 3;
+  // Weight of the clauses before and after a contrast word ("good but slow")
+  private static readonly PRE_CONTRAST_WEIGHT = 0.5;
+  private static readonly POST_CONTRAST_WEIGHT = 1.5;
+  private static readonly MAX_KEYWORDS = 5;
+  private static readonly MIN_KEYWORD_LENGTH = 3;
+  private static readonly TOP_TOPICS = 5;
+  private static readonly SAMPLE_REVIEWS = 3;
+  // Sentiment a review needs to count as contradicting its star rating
+  private static readonly MISMATCH_THRESHOLD = 0.4;
+  private static readonly MAX_MISMATCHES = 20;
+  private static readonly MAX_COMPLAINT_RATING = 2;
+
+  private static lexicons = new Map<string, SentimentLexicon>([[ENGLISH_LEXICON.language, ENGLISH_LEXICON]]);
+  private static compiled = new Map<string, CompiledLexicon>();
+
+  /**
+   * Add or replace the lexicon for a language
+   */
+  static registerLexicon(lexicon: SentimentLexicon): void {
+    this.lexicons.set(lexicon.language, lexicon);
+    this.compiled.delete(lexicon.language);
+  }
+
+  static getLanguages(): string[] {
+    return Array.from(this.lexicons.keys());
+  }
+
+  /**
+   * Pick the lexicon for a review: the requested language (e.g. `de_de`) when
+   * a lexicon is registered for it, otherwise the language of the review's
+   * storefront, otherwise English
+   */
+  static resolveLexicon(language?: string, country?: string): SentimentLexicon {
+    const code = language?.toLowerCase().split(/[_-]/)[0];
+    if (code && this.lexicons.has(code)) {
+      return this.lexicons.get(code)!;
+    }
+
+    const storefront = country?.toLowerCase();
+    const byStorefront = storefront
+      ? Array.from(this.lexicons.values()).find(lexicon => lexicon.storefronts?.includes(storefront))
+      : undefined;
+
+    return byStorefront ?? ENGLISH_LEXICON;
+  }
+
+  /**
+   * Attach an analysis to each review and summarize them
+   */
+  static analyze(
+    reviews: AppReview[],
+    language?: string
+  ): { reviews: AppReview[]; summary: ReviewAnalysisSummary } {
+    const analyzed = reviews.map(review => ({
+      ...review,
+      analysis: this.analyzeReview(review, this.resolveLexicon(language, review.country))
+    }));
+
+    return { reviews: analyzed, summary: this.summarize(analyzed) };
+  }
+
+  static analyzeReview(review: AppReview, lexicon: SentimentLexicon = ENGLISH_LEXICON): ReviewTextAnalysis {
+    const compiled = this.compile(lexicon);
+    const topicScores = new Map<string, number>();
+    const wordCounts = new Map<string, number>();
+    let total = 0;
+
+    for (const sentence of `${review.title}\n${review.content}`.split(/[.!?;\n]+/)) {
+      const tokens = this.tokenize(sentence);
+      if (tokens.length === 0) {
+        continue;
+      }
+
+      total += this.scoreSentence(tokens, compiled);
+
+      // "Great features but slow": each clause gives its topics its own tone
+      for (const clause of this.splitClauses(tokens, compiled)) {
+        const score = this.scoreSentence(clause, compiled);
+        for (const topic of this.matchTopics(clause, compiled)) {
+          topicScores.set(topic, (topicScores.get(topic) ?? 0) + score);
+        }
+      }
+
+      for (const token of tokens) {
+        if (this.isKeyword(token, compiled)) {
+          wordCounts.set(token, (wordCounts.get(token) ?? 0) + 1);
+        }
+      }
+    }
+
+    const sentimentScore = this.normalize(total);
+    const sentiment = this.label(sentimentScore);
+
+    // A topic in a neutral sentence ("The new design.") takes the review's tone
+    const fallback: SentimentLabel = sentiment !== 'neutral'
+      ? sentiment
+      : review.rating <= 2 ? 'negative' : review.rating >= 4 ? 'positive' : 'neutral';
+    const topics: ReviewTopicMention[] = Array.from(topicScores, ([topic, score]) => {
+      const topicSentiment = this.label(this.normalize(score));
+      return { topic, sentiment: topicSentiment === 'neutral' ? fallback : topicSentiment };
+    });
+
+    // Map iteration follows first occurrence, and the sort is stable
+    const keywords = Array.from(wordCounts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.MAX_KEYWORDS)
+      .map(([word]) => word);
+
+    return {
+      sentiment_score: sentimentScore,
+      sentiment,
+      topics,
+      keywords,
+      language: lexicon.language
+    };
+  }
+
+  /**
+   * Most common keywords of complaints, i.e. reviews of 1 or 2 stars or with
+   * negative text. A keyword counts once per review. Reviews without an
+   * analysis are analyzed as in `analyze`.
+   */
+  static complaintKeywords(reviews: AppReview[], language?: string, limit: number = 10): ComplaintKeyword[] {
+    const counts = new Map<string, number>();
+    let complaints = 0;
+
+    for (const review of reviews) {
+      const analysis = review.analysis ?? this.analyzeReview(review, this.resolveLexicon(language, review.country));
+      if (review.rating > this.MAX_COMPLAINT_RATING && analysis.sentiment !== 'negative') {
+        continue;
+      }
+
+      complaints++;
+      for (const keyword of new Set(analysis.keywords)) {
+        counts.set(keyword, (counts.get(keyword) ?? 0) + 1);
+      }
+    }
+
+    return Array.from(counts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([keyword, count]) => ({
+        keyword,
+        review_count: count,
+        share: this.round(count / complaints)
+      }));
+  }
+
+  /**
+   * Aggregate analyzed reviews into sentiment totals, the most mentioned
+   * complaint and praise topics, and reviews whose text contradicts their
+   * star rating. Reviews without an analysis are skipped.
+   */
+  static summarize(reviews: AppReview[]): ReviewAnalysisSummary {
+    const analyzed = reviews.filter(review => review.analysis);
+    const distribution: Record<SentimentLabel, number> = { positive: 0, neutral: 0, negative: 0 };
+    const complaints = new Map<string, TopicTotals>();
+    const praises = new Map<string, TopicTotals>();
+    const mismatches: SentimentMismatch[] = [];
+    const languages = new Set<string>();
+    let sentimentTotal = 0;
+
+    for (const review of analyzed) {
+      const analysis = review.analysis!;
+      distribution[analysis.sentiment]++;
+      sentimentTotal += analysis.sentiment_score;
+      languages.add(analysis.language);
+
+      for (const mention of analysis.topics) {
+        if (mention.sentiment !== 'neutral') {
+          this.addTopic(mention.sentiment === 'negative' ? complaints : praises, mention.topic, review);
+        }
+      }
+
+      const mismatch = this.findMismatch(review);
+      if (mismatch) {
+        mismatches.push(mismatch);
+      }
+    }
+
+    mismatches.sort((a, b) => Math.abs(b.sentiment_score) - Math.abs(a.sentiment_score));
+
+    return {
+      analyzed_reviews: analyzed.length,
+      languages: Array.from(languages),
+      average_sentiment: analyzed.length > 0 ? this.round(sentimentTotal / analyzed.length) : null,
+      sentiment_distribution: distribution,
+      top_complaints: this.topTopics(complaints, analyzed.length),
+      top_praises: this.topTopics(praises, analyzed.length),
+      mismatches: mismatches.slice(0, this.MAX_MISMATCHES),
+      mismatch_count: mismatches.length
+    };
+  }
+
+  /**
+   * Sum of the sentence's word valences
+   */
+  private static scoreSentence(tokens: string[], compiled: CompiledLexicon): number {
+    let beforeContrast = 0;
+    let afterContrast = 0;
+    let contrasted = false;
+
+    tokens.forEach((token, index) => {
+      if (compiled.contrasts.has(token)) {
+        contrasted = true;
+        return;
+      }
+
+      let value = this.valence(token, compiled);
+      if (value === undefined) {
+        return;
+      }
+
+      const intensifier = index > 0 ? compiled.intensifiers.get(tokens[index - 1]) : undefined;
+      if (intensifier !== undefined) {
+        value *= intensifier;
+      }
+
+      const scope = tokens.slice(Math.max(0, index - this.NEGATION_SCOPE), index);
+      if (scope.some(word => compiled.negations.has(word))) {
+        value *= this.NEGATION_FACTOR;
+      }
+
+      if (contrasted) {
+        afterContrast += value;
+      } else {
+        beforeContrast += value;
+      }
+    });
+
+    return contrasted
+      ? beforeContrast * this.PRE_CONTRAST_WEIGHT + afterContrast * this.POST_CONTRAST_WEIGHT
+      : beforeContrast;
+  }
+
+  private static splitClauses(tokens: string[], compiled: CompiledLexicon): string[][] {
+    const clauses: string[][] = [[]];
+    for (const token of tokens) {
+      if (compiled.contrasts.has(token)) {
+        clauses.push([]);
+      } else {
+        clauses[clauses.length - 1].push(token);
+      }
+    }
+    return clauses.filter(clause => clause.length > 0);
+  }
+
+  private static valence(token: string, compiled: CompiledLexicon): number | undefined {
+    const exact = compiled.words.get(token);
+    if (exact !== undefined) {
+      return exact;
+    }
+
+    return compiled.wordPrefixes.find(([prefix]) => token.startsWith(prefix))?.[1];
+  }
+
+  private static matchTopics(tokens: string[], compiled: CompiledLexicon): string[] {
+    return compiled.topics
+      .filter(({ phrases }) => phrases.some(phrase => this.containsPhrase(tokens, phrase)))
+      .map(({ topic }) => topic);
+  }
+
+  private static containsPhrase(tokens: string[], phrase: string[]): boolean {
+    for (let start = 0; start + phrase.length <= tokens.length; start++) {
+      if (phrase.every((word, offset) => this.matchesWord(tokens[start + offset], word))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private static matchesWord(token: string, pattern: string): boolean {
+    return pattern.endsWith('*') ? token.startsWith(pattern.slice(0, -1)) : token === pattern;
+  }
+
+  private static isKeyword(token: string, compiled: CompiledLexicon): boolean {
+    return token.length >= this.MIN_KEYWORD_LENGTH && !/^\d+$/.test(token) && !compiled.ignored.has(token);
+  }
+
+  /**
+   * Lowercase words, keeping apostrophes inside words ("don't")
+   */
+  private static tokenize(text: string): string[] {
+    const words = text.toLowerCase().replace(/[‘’]/g, "'").match(/[\p{L}\p{N}']+/gu) ?? [];
+    return words.map(word => word.replace(/^'+|'+$/g, '')).filter(word => word.length > 0);
+  }
+
+  private static findMismatch(review: AppReview): SentimentMismatch | undefined {
+    const score = review.analysis!.sentiment_score;
+    let type: SentimentMismatch['type'] | undefined;
+
+    if (review.rating <= 2 && score >= this.MISMATCH_THRESHOLD) {
+      type = 'positive_text_low_rating';
+    } else if (review.rating >= 4 && score <= -this.MISMATCH_THRESHOLD) {
+      type = 'negative_text_high_rating';
+    }
+
+    return type
+      ? { review_id: review.id, rating: review.rating, sentiment_score: score, type, title: review.title }
+      : undefined;
+  }
+
+  private static addTopic(totals: Map<string, TopicTotals>, topic: string, review: AppReview): void {
+    const entry = totals.get(topic) ?? { review_count: 0, rating_total: 0, review_ids: [] };
+    entry.review_count++;
+    entry.rating_total += review.rating;
+    if (entry.review_ids.length < this.SAMPLE_REVIEWS) {
+      entry.review_ids.push(review.id);
+    }
+    totals.set(topic, entry);
+  }
+
+  private static topTopics(totals: Map<string, TopicTotals>, reviewCount: number): ReviewTopicSummary[] {
+    return Array.from(totals)
+      .sort((a, b) => b[1].review_count - a[1].review_count || a[0].localeCompare(b[0]))
+      .slice(0, this.TOP_TOPICS)
+      .map(([topic, entry]) => ({
+        topic,
+        review_count: entry.review_count,
+        share: this.round(entry.review_count / reviewCount),
+        average_rating: this.round(entry.rating_total / entry.review_count),
+        sample_review_ids: entry.review_ids
+      }));
+  }
+
+  private static compile(lexicon: SentimentLexicon): CompiledLexicon {
+    const cached = this.compiled.get(lexicon.language);
+    if (cached?.lexicon === lexicon) {
+      return cached;
+    }
+
+    const words = new Map<string, number>();
+    const wordPrefixes: [string, number][] = [];
+    for (const [word, value] of Object.entries(lexicon.words)) {
+      if (word.endsWith('*')) {
+        wordPrefixes.push([word.slice(0, -1), value]);
+      } else {
+        words.set(word, value);
+      }
+    }
+    wordPrefixes.sort((a, b) => b[0].length - a[0].length);
+
+    const compiled: CompiledLexicon = {
+      lexicon,
+      words,
+      wordPrefixes,
+      negations: new Set(lexicon.negations),
+      intensifiers: new Map(Object.entries(lexicon.intensifiers)),
+      contrasts: new Set(lexicon.contrasts ?? []),
+      ignored: new Set([
+        ...lexicon.stopwords,
+        ...lexicon.negations,
+        ...Object.keys(lexicon.intensifiers),
+        ...(lexicon.contrasts ?? [])
+      ]),
+      topics: Object.entries(lexicon.topics).map(([topic, keywords]) => ({
+        topic,
+        phrases: keywords.map(keyword => this.tokenize(keyword.replace(/\*$/, '')).map((word, index, all) =>
+          index === all.length - 1 && keyword.endsWith('*') ? `${word}*` : word
+        ))
+      }))
+    };
+
+    this.compiled.set(lexicon.language, compiled);
+    return compiled;
+  }
+
+  private static label(score: number): SentimentLabel {
+    if (score >= this.NEUTRAL_THRESHOLD) {
+      return 'positive';
+    }
+    return score <= -this.NEUTRAL_THRESHOLD ? 'negative' : 'neutral';
+  }
+
+  private static normalize(score: number): number {
+    return this.round(score / Math.sqrt(score * score + this.ALPHA));
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,138 @@
+import { AppReview, ReviewExportFormat } from '../types';
+
+export class ReviewExport {
+  static readonly FORMATS: ReviewExportFormat[] = ['json', 'csv', 'ndjson'];
+
+  static readonly CSV_COLUMNS: (keyof AppReview)[] = [
+    'id',
+    'app_id',
+    'platform',
+    'country',
+    'rating',
+    'title',
+    'content',
+    'author',
+    'date',
+    'helpful_votes',
+    'version',
+    'review_types',
+    'first_seen',
+    'last_seen'
+  ];
+
+  static readonly CONTENT_TYPES: Record<ReviewExportFormat, string> = {
+    json: 'application/json',
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8'
+  };
+
+  // Rows encoded per stream chunk
+  private static readonly CHUNK_SIZE = 100;
+
+  /**
+   * Pick the export format: an explicit `format` parameter wins, otherwise the
+   * supported media type with the highest quality in the Accept header.
+   */
+  static resolveFormat(format: string | undefined, accept: string | null): ReviewExportFormat {
+    if (format) {
+      return format as ReviewExportFormat;
+    }
+
+    const mediaTypes: Record<string, ReviewExportFormat> = {
+      'application/json': 'json',
+      'text/csv': 'csv',
+      'application/x-ndjson': 'ndjson',
+      'application/ndjson': 'ndjson'
+    };
+
+    let best: { format: ReviewExportFormat; quality: number } = { format: 'json', quality: 0 };
+    for (const part of (accept ?? '').split(',')) {
+      const [mediaType, ...params] = part.trim().toLowerCase().split(';');
+      const quality = params
+        .map(param => param.trim().match(/^q=([\d.]+)$/))
+        .filter(Boolean)
+        .map(match => parseFloat(match![1]))[0] ?? 1;
+
+      if (mediaTypes[mediaType] && quality > best.quality) {
+        best = { format: mediaTypes[mediaType], quality };
+      }
+    }
+
+    return best.format;
+  }
+
+  /**
+   * Download filename, e.g. reviews_284882215_us.csv
+   */
+  static filename(appId: string, countryLabel: string, format: ReviewExportFormat): string {
+    const safeLabel = countryLabel.replace(/[^a-z0-9-]/gi, '');
+    return `reviews_${appId}_${safeLabel}.${format}`;
+  }
+
+  /**
+   * Stream reviews as CSV (RFC 4180). `review_types` is flattened to a
+   * `|`-separated list.
+   */
+  static toCsvStream(reviews: AppReview[]): ReadableStream<Uint8Array> {
+    const header = this.CSV_COLUMNS.join(',') + '\r\n';
+    return this.createStream(reviews, header, review =>
+      this.CSV_COLUMNS.map(column => this.escapeCsv(this.csvValue(review, column))).join(',') + '\r\n'
+    );
+  }
+
+  /**
+   * Stream reviews as newline-delimited JSON, one review per line
+   */
+  static toNdjsonStream(reviews: AppReview[]): ReadableStream<Uint8Array> {
+    return this.createStream(reviews, '', review => JSON.stringify(review) + '\n');
+  }
+
+  /**
+   * Quote a CSV field when it contains a delimiter, quote or line break,
+   * doubling any embedded quotes. Fields that a spreadsheet would run as a
+   * formula (starting with =, +, -, @, tab or carriage return) are prefixed
+   * with `'` first, since review text is user-controlled.
+   */
+  static escapeCsv(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  private static csvValue(review: AppReview, column: keyof AppReview): string {
+    const value = review[column];
+
+    if (Array.isArray(value)) {
+      return value.join('|');
+    }
+
+    return value === undefined || value === null ? '' : String(value);
+  }
+
+  private static createStream(
+    reviews: AppReview[],
+    header: string,
+    formatRow: (review: AppReview) => string
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (header) {
+          controller.enqueue(encoder.encode(header));
+        }
+      },
+      pull(controller) {
+        const chunk = reviews.slice(index, index + ReviewExport.CHUNK_SIZE).map(formatRow).join('');
+        index += ReviewExport.CHUNK_SIZE;
+
+        if (chunk) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+        if (index >= reviews.length) {
+          controller.close();
+        }
+      }
+    });
+  }
+}
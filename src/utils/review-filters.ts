@@ -0,0 +1,90 @@
+import { AppReview, ReviewsRequest } from '../types';
+import { Validators } from './validators';
+
+export class ReviewFilters {
+  /**
+   * Whether any filter parameter is set on the request
+   */
+  static hasFilters(request: ReviewsRequest): boolean {
+    return request.min_rating !== undefined ||
+           request.max_rating !== undefined ||
+           request.since !== undefined ||
+           request.until !== undefined ||
+           !!request.search ||
+           request.review_types !== undefined ||
+           request.min_helpful_votes !== undefined;
+  }
+
+  /**
+   * Keep the reviews matching every filter on the request
+   */
+  static apply(reviews: AppReview[], request: ReviewsRequest): AppReview[] {
+    const since = request.since ? this.parseDate(request.since, false) : null;
+    const until = request.until ? this.parseDate(request.until, true) : null;
+    const searchTerms = (request.search ?? '').toLowerCase().split(/\s+/).filter(term => term.length > 0);
+    const reviewTypes = request.review_types !== undefined ? Validators.splitList(request.review_types) : null;
+
+    return reviews.filter(review => {
+      if (request.min_rating !== undefined && review.rating < request.min_rating) {
+        return false;
+      }
+
+      if (request.max_rating !== undefined && review.rating > request.max_rating) {
+        return false;
+      }
+
+      if (since !== null || until !== null) {
+        const date = new Date(review.date).getTime();
+        if ((since !== null && !(date >= since)) || (until !== null && !(date <= until))) {
+          return false;
+        }
+      }
+
+      if (searchTerms.length > 0) {
+        const text = `${review.title}\n${review.content}`.toLowerCase();
+        if (!searchTerms.every(term => text.includes(term))) {
+          return false;
+        }
+      }
+
+      if (reviewTypes && !review.review_types.some(type => reviewTypes.includes(type))) {
+        return false;
+      }
+
+      if (request.min_helpful_votes !== undefined && (review.helpful_votes ?? 0) < request.min_helpful_votes) {
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Sort reviews by date, rating or helpful votes. Ties fall back to most recent first.
+   */
+  static sort(reviews: AppReview[], sort: ReviewsRequest['sort'] = 'date', order: ReviewsRequest['order'] = 'desc'): AppReview[] {
+    const direction = order === 'asc' ? 1 : -1;
+    const byDate = (a: AppReview, b: AppReview) => new Date(a.date).getTime() - new Date(b.date).getTime();
+    const compare = (a: AppReview, b: AppReview): number => {
+      switch (sort) {
+        case 'rating':
+          return a.rating - b.rating;
+        case 'helpfulness':
+          return (a.helpful_votes ?? 0) - (b.helpful_votes ?? 0);
+        default:
+          return byDate(a, b);
+      }
+    };
+
+    return [...reviews].sort((a, b) => direction * compare(a, b) || byDate(b, a));
+  }
+
+  /**
+   * Parse a filter date. A date without a time (YYYY-MM-DD) used as an upper
+   * bound covers the whole day.
+   */
+  static parseDate(value: string, endOfDay: boolean): number {
+    const time = Date.parse(value);
+    return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+  }
+}
@@ -0,0 +1,39 @@
+import { createHash } from 'crypto';
+import { Platform } from '../types';
+
+export class ReviewIds {
+  private static readonly PREFIXES: Record<Platform, string> = {
+    app_store: 'appstore',
+    google_play: 'googleplay'
+  };
+
+  /**
+   * Build a stable review ID. The upstream review ID is used when the source
+   * provides one; otherwise the ID is a deterministic hash of the review's
+   * author, date and content, so the same review always gets the same ID
+   * regardless of feed order. IDs are prefixed with the review's platform
+   * (appstore_, googleplay_), so iTunes and ASO Market reviews share the
+   * appstore_ namespace.
+   */
+  static create(
+    appId: string,
+    review: { upstreamId?: string | number | null; author: string; date: string; content: string },
+    platform: Platform = 'app_store'
+  ): string {
+    const prefix = this.PREFIXES[platform];
+    const upstreamId = review.upstreamId !== undefined && review.upstreamId !== null
+      ? String(review.upstreamId).trim()
+      : '';
+
+    if (upstreamId) {
+      return `${prefix}_${upstreamId}`;
+    }
+
+    const hash = createHash('sha256')
+      .update([appId, review.author.trim(), review.date.trim(), review.content.trim()].join('\u0000'))
+      .digest('hex')
+      .substring(0, 24);
+
+    return `${prefix}_h${hash}`;
+  }
+}
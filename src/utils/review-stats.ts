@@ -0,0 +1,159 @@
+import { AppReview, ReviewStatistics, ReviewVersionStats, RatingWindowStats, WeeklyReviewVolume } from '../types';
+
+export class ReviewStats {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Compute rating distribution, rolling averages, weekly volume and content
+   * statistics for a list of reviews. Time windows are relative to `now`.
+   */
+  static compute(reviews: AppReview[], now: Date = new Date()): ReviewStatistics {
+    const ratingDistribution: Record<string, number> = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+    let helpfulVotesTotal = 0;
+    let reviewsWithVotes = 0;
+
+    for (const review of reviews) {
+      if (review.rating >= 1 && review.rating <= 5) {
+        ratingDistribution[String(review.rating)]++;
+      }
+
+      const votes = review.helpful_votes ?? 0;
+      helpfulVotesTotal += votes;
+      if (votes > 0) {
+        reviewsWithVotes++;
+      }
+    }
+
+    return {
+      total_reviews: reviews.length,
+      average_rating: this.averageRating(reviews) ?? 0,
+      rating_distribution: ratingDistribution,
+      rating_windows: {
+        last_7_days: this.windowStats(reviews, now, 7),
+        last_30_days: this.windowStats(reviews, now, 30),
+        last_90_days: this.windowStats(reviews, now, 90)
+      },
+      weekly_volume: this.weeklyVolume(reviews),
+      average_title_length: this.round(this.average(reviews.map(review => review.title.length)) ?? 0),
+      average_content_length: this.round(this.average(reviews.map(review => review.content.length)) ?? 0),
+      helpful_votes: {
+        total: helpfulVotesTotal,
+        average: this.round(this.average(reviews.map(review => review.helpful_votes ?? 0)) ?? 0),
+        reviews_with_votes: reviewsWithVotes
+      }
+    };
+  }
+
+  /**
+   * Review count, average rating, star distribution and review date range per
+   * app version, newest version first. Each version's average is compared with
+   * the version before it, so a release that made ratings worse shows a negative
+   * change. Reviews without a version are left out.
+   */
+  static versionBreakdown(reviews: AppReview[]): ReviewVersionStats[] {
+    const versions = new Map<string, AppReview[]>();
+
+    for (const review of reviews) {
+      if (review.version) {
+        versions.set(review.version, [...(versions.get(review.version) ?? []), review]);
+      }
+    }
+
+    const breakdown = Array.from(versions.entries())
+      .sort(([a], [b]) => this.compareVersions(a, b))
+      .map(([version, versionReviews]): ReviewVersionStats => {
+        const ratingDistribution: Record<string, number> = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+        for (const review of versionReviews) {
+          if (review.rating >= 1 && review.rating <= 5) {
+            ratingDistribution[String(review.rating)]++;
+          }
+        }
+
+        const dates = versionReviews
+          .map(review => review.date)
+          .filter(date => !Number.isNaN(new Date(date).getTime()))
+          .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+        return {
+          version,
+          review_count: versionReviews.length,
+          average_rating: this.averageRating(versionReviews) ?? 0,
+          rating_distribution: ratingDistribution,
+          average_rating_change: null,
+          first_review_date: dates[0] ?? '',
+          last_review_date: dates[dates.length - 1] ?? ''
+        };
+      });
+
+    for (let i = 1; i < breakdown.length; i++) {
+      breakdown[i].average_rating_change = this.round(breakdown[i].average_rating - breakdown[i - 1].average_rating);
+    }
+
+    return breakdown.reverse();
+  }
+
+  /**
+   * Order version strings by their numeric segments (1.9 before 1.10), oldest first
+   */
+  private static compareVersions(a: string, b: string): number {
+    return a.localeCompare(b, 'en', { numeric: true });
+  }
+
+  private static windowStats(reviews: AppReview[], now: Date, days: number): RatingWindowStats {
+    const start = now.getTime() - days * this.DAY_MS;
+    const inWindow = reviews.filter(review => {
+      const time = new Date(review.date).getTime();
+      return time >= start && time <= now.getTime();
+    });
+
+    return {
+      review_count: inWindow.length,
+      average_rating: this.averageRating(inWindow)
+    };
+  }
+
+  /**
+   * Review count and average rating per ISO week (weeks start on Monday, UTC), oldest first
+   */
+  private static weeklyVolume(reviews: AppReview[]): WeeklyReviewVolume[] {
+    const weeks = new Map<string, AppReview[]>();
+
+    for (const review of reviews) {
+      const time = new Date(review.date).getTime();
+      if (Number.isNaN(time)) {
+        continue;
+      }
+
+      const weekStart = this.weekStart(time);
+      weeks.set(weekStart, [...(weeks.get(weekStart) ?? []), review]);
+    }
+
+    return Array.from(weeks.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([weekStart, weekReviews]) => ({
+        week_start: weekStart,
+        review_count: weekReviews.length,
+        average_rating: this.averageRating(weekReviews) ?? 0
+      }));
+  }
+
+  private static weekStart(time: number): string {
+    const date = new Date(time);
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday));
+    return monday.toISOString().substring(0, 10);
+  }
+
+  private static averageRating(reviews: AppReview[]): number | null {
+    const average = this.average(reviews.map(review => review.rating));
+    return average === null ? null : this.round(average);
+  }
+
+  private static average(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
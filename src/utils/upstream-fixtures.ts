@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Env } from '../types';
+import { Logger } from './logger';
+import { BadGatewayError } from './errors';
+
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type UpstreamFixturesMode = 'off' | 'record' | 'replay';
+
+/**
+ * One recorded upstream exchange. JSON response bodies are stored parsed in
+ * `json` so that fixtures stay readable; any other body is stored as text.
+ */
+export interface UpstreamFixture {
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    status_text: string;
+    headers: Record<string, string>;
+    json?: unknown;
+    body?: string;
+  };
+  recorded_at: string;
+}
+
+/**
+ * Fetch layer for the upstream services that records responses to fixture
+ * files or replays them offline. Fixtures are keyed by request method, URL and
+ * body, one JSON file per request. In `replay` mode the network is never used
+ * and a request without a fixture fails.
+ */
+export class UpstreamFixtures {
+  static readonly DEFAULT_DIR = 'fixtures/upstream';
+  private static readonly MODES: UpstreamFixturesMode[] = ['off', 'record', 'replay'];
+  // Statuses whose responses must not have a body
+  private static readonly NULL_BODY_STATUSES = [101, 204, 205, 304];
+  // Headers not recorded: cookies, and framing that no longer matches the decoded body
+  private static readonly SKIPPED_HEADERS = ['set-cookie', 'content-encoding', 'content-length', 'transfer-encoding'];
+
+  constructor(
+    private mode: UpstreamFixturesMode,
+    private dir: string = UpstreamFixtures.DEFAULT_DIR,
+    private fetchImpl: FetchFunction = (url, init) => fetch(url, init)
+  ) {}
+
+  /**
+   * Fetch function for the mode configured in UPSTREAM_FIXTURES_MODE: the
+   * global fetch when fixtures are off
+   */
+  static fetchFor(env: Env): FetchFunction {
+    const mode = UpstreamFixtures.getMode(env);
+    if (mode === 'off') {
+      return (url, init) => fetch(url, init);
+    }
+
+    const fixtures = new UpstreamFixtures(mode, env.UPSTREAM_FIXTURES_DIR || UpstreamFixtures.DEFAULT_DIR);
+    return (url, init) => fixtures.fetch(url, init);
+  }
+
+  static getMode(env: Env): UpstreamFixturesMode {
+    const mode = (env.UPSTREAM_FIXTURES_MODE || 'off').toLowerCase() as UpstreamFixturesMode;
+    if (!UpstreamFixtures.MODES.includes(mode)) {
+      Logger.warn('Ignoring unknown upstream fixtures mode', 'UPSTREAM_FIXTURES', { mode: env.UPSTREAM_FIXTURES_MODE });
+      return 'off';
+    }
+    return mode;
+  }
+
+  /**
+   * File name of the fixture for a request: the host followed by a hash of
+   * the method, URL and body
+   */
+  static getFileName(method: string, url: string, body?: string): string {
+    const hash = createHash('sha256')
+      .update(`${method.toUpperCase()} ${url}\n${body ?? ''}`)
+      .digest('hex')
+      .slice(0, 16);
+    return `${new URL(url).host}-${hash}.json`;
+  }
+
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const body = init.body === undefined || init.body === null ? undefined : String(init.body);
+    const filePath = path.join(this.dir, UpstreamFixtures.getFileName(method, url, body));
+
+    if (this.mode === 'replay') {
+      return this.replay(filePath, method, url);
+    }
+
+    const response = await this.fetchImpl(url, init);
+    if (this.mode === 'record') {
+      return this.record(filePath, { method, url, body }, response);
+    }
+    return response;
+  }
+
+  private replay(filePath: string, method: string, url: string): Response {
+    if (!fs.existsSync(filePath)) {
+      throw new BadGatewayError(`No upstream fixture for ${method} ${url} (expected ${filePath})`);
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(filePath, 'utf8')) as UpstreamFixture;
+    Logger.debug('Replaying upstream fixture', 'UPSTREAM_FIXTURES', { method, url, path: filePath });
+
+    const { status, status_text, headers, json, body } = fixture.response;
+    return UpstreamFixtures.createResponse(json !== undefined ? JSON.stringify(json) : body ?? '', status, status_text, headers);
+  }
+
+  /**
+   * Save the response as a fixture and hand back an unread copy of it
+   */
+  private async record(filePath: string, request: UpstreamFixture['request'], response: Response): Promise<Response> {
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!UpstreamFixtures.SKIPPED_HEADERS.includes(name)) {
+        headers[name] = value;
+      }
+    });
+
+    const fixture: UpstreamFixture = {
+      request,
+      response: {
+        status: response.status,
+        status_text: response.statusText,
+        headers,
+        ...this.encodeBody(text, headers['content-type'])
+      },
+      recorded_at: new Date().toISOString()
+    };
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2) + '\n');
+    Logger.info('Recorded upstream fixture', 'UPSTREAM_FIXTURES', { method: request.method, url: request.url, path: filePath });
+
+    return UpstreamFixtures.createResponse(text, response.status, response.statusText, headers);
+  }
+
+  private static createResponse(body: string, status: number, statusText: string, headers: Record<string, string>): Response {
+    return new Response(UpstreamFixtures.NULL_BODY_STATUSES.includes(status) ? null : body, { status, statusText, headers });
+  }
+
+  private encodeBody(text: string, contentType: string | undefined): { json?: unknown; body?: string } {
+    if (/json|javascript/i.test(contentType ?? '')) {
+      try {
+        return { json: JSON.parse(text) };
+      } catch {
+        // Not actually JSON (e.g. a JSONP or error page), keep the text
+      }
+    }
+    return { body: text };
+  }
+}
@@ -1,23 +1,451 @@
+import { AppSearchEntity, Platform, ReviewSourceOption } from '../types';
+import { Pagination } from './pagination';
+import { APP_STORE_STOREFRONTS } from './storefronts';
+import { ReviewExport } from './review-export';
+import { MetadataFields } from './metadata-fields';
+import { NetworkAddress } from './network-address';
+
 export class Validators {
-  static isValidAppId(appId: string): boolean {
-    // App Store app IDs are numeric strings
-    return /^\d+$/.test(appId) && appId.length > 0;
+  static readonly MAX_APPS_PER_BATCH = 25;
+  static readonly MAX_COMPETITORS = 10;
+  // Every storefront is fetched separately upstream and counts against the rate
+  // limit. Applies to explicit lists; country=all is charged for every storefront.
+  static readonly MAX_COUNTRIES_PER_REQUEST = 10;
+  static readonly PLATFORMS: Platform[] = ['app_store', 'google_play'];
+  static readonly REVIEW_SOURCES = ['itunes', 'aso_market', 'google_play', 'auto'];
+  static readonly PLATFORM_SOURCES: Record<Platform, ReviewSourceOption[]> = {
+    app_store: ['itunes', 'aso_market', 'auto'],
+    google_play: ['google_play', 'auto']
+  };
+  static readonly REVIEW_TYPES = ['mostRecent', 'mostHelpful', 'mostFavorable', 'mostCritical'];
+  static readonly REVIEW_SORTS = ['date', 'rating', 'helpfulness'];
+  static readonly MAX_SEARCH_LENGTH = 200;
+  static readonly WEBHOOK_FORMATS = ['json', 'slack'];
+  static readonly MAX_WEBHOOK_KEYWORDS = 20;
+  static readonly MAX_BUNDLE_ID_LENGTH = 155;
+  static readonly SEARCH_ENTITIES: AppSearchEntity[] = ['software', 'iPadSoftware', 'macSoftware'];
+
+  /**
+   * App Store IDs are numeric strings and Google Play IDs are package names
+   * (com.example.app). Without a platform either form is accepted.
+   */
+  static isValidAppId(appId: string, platform?: Platform): boolean {
+    if (typeof appId !== 'string') {
+      return false;
+    }
+
+    const isAppStoreId = /^\d+$/.test(appId);
+    const isPackageName = /^[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z][a-zA-Z0-9_]*)+$/.test(appId) && appId.length <= 255;
+
+    switch (platform) {
+      case 'app_store':
+        return isAppStoreId;
+      case 'google_play':
+        return isPackageName;
+      default:
+        return isAppStoreId || isPackageName;
+    }
+  }
+
+  /**
+   * App Store bundle ID in reverse-DNS form (com.example.app)
+   */
+  static isValidBundleId(bundleId: string): boolean {
+    return typeof bundleId === 'string'
+      && bundleId.length <= this.MAX_BUNDLE_ID_LENGTH
+      && /^[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)+$/.test(bundleId);
+  }
+
+  /**
+   * Platform of an app ID: numeric IDs are App Store apps, anything else is
+   * taken to be a Google Play package name
+   */
+  static detectPlatform(appId: string): Platform {
+    return /^\d+$/.test(appId.trim()) ? 'app_store' : 'google_play';
+  }
+
+  static isValidPlatform(platform: string): boolean {
+    return (this.PLATFORMS as string[]).includes(platform);
   }
 
   static isValidLimit(limit: number): boolean {
     return Number.isInteger(limit) && limit > 0 && limit <= 200;
   }
 
+  /**
+   * Lowercase ISO 3166-1 alpha-2 code of a country with an App Store storefront
+   */
+  static isValidCountry(country: string): boolean {
+    return APP_STORE_STOREFRONTS.includes(country);
+  }
+
+  /**
+   * Language for localized metadata: an ISO 639-1 code, optionally with a
+   * region (en, de_de, pt-BR)
+   */
+  static isValidLanguage(lang: string): boolean {
+    return typeof lang === 'string' && /^[a-z]{2}([_-][a-z]{2})?$/i.test(lang);
+  }
+
+  /**
+   * A review source, optionally one that serves the given platform
+   */
+  static isValidSource(source: string, platform?: Platform): boolean {
+    const sources: string[] = platform ? this.PLATFORM_SOURCES[platform] : this.REVIEW_SOURCES;
+    return sources.includes(source);
+  }
+
+  static isValidRating(rating: number): boolean {
+    return Number.isInteger(rating) && rating >= 1 && rating <= 5;
+  }
+
+  static isValidDate(date: string): boolean {
+    return typeof date === 'string' && date.length > 0 && !Number.isNaN(Date.parse(date));
+  }
+
+  static isValidPage(page: number): boolean {
+    return Number.isInteger(page) && page > 0;
+  }
+
+  /**
+   * Whether a parsed request body is a JSON object (not null, an array or a primitive)
+   */
+  static isPlainObject(data: any): boolean {
+    return data !== null && typeof data === 'object' && !Array.isArray(data);
+  }
+
   static validateReviewsRequest(data: any): { isValid: boolean; errors: string[] } {
+    if (!this.isPlainObject(data)) {
+      return { isValid: false, errors: ['request body must be a JSON object'] };
+    }
+
+    const errors: string[] = this.validateAppSelection(data);
+
+    if (data.country !== undefined) {
+      errors.push(...this.validateCountries(data.country));
+    }
+
+    if (data.lang !== undefined && !this.isValidLanguage(data.lang)) {
+      errors.push('lang must be a language code such as en or de_de');
+    }
+
+    errors.push(...this.validateReviewFilters(data));
+
+    if (data.format !== undefined && !ReviewExport.FORMATS.includes(data.format)) {
+      errors.push(`format must be one of: ${ReviewExport.FORMATS.join(', ')}`);
+    }
+
+    errors.push(...this.validateMetadataFields(data.fields));
+
+    if (data.page !== undefined && !this.isValidPage(data.page)) {
+      errors.push('page must be a positive integer');
+    }
+
+    if (data.page_size !== undefined && !this.isValidLimit(data.page_size)) {
+      errors.push('page_size must be an integer between 1 and 200');
+    }
+
+    if (data.cursor !== undefined) {
+      if (data.page !== undefined) {
+        errors.push('page and cursor cannot be used together');
+      } else if (typeof data.cursor !== 'string' || Pagination.decodeCursor(data.cursor) === null) {
+        errors.push('cursor is invalid');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate the filtering and sorting parameters of a reviews request
+   */
+  static validateReviewFilters(data: any): string[] {
+    const errors: string[] = [];
+
+    if (data.min_rating !== undefined && !this.isValidRating(data.min_rating)) {
+      errors.push('min_rating must be an integer between 1 and 5');
+    }
+
+    if (data.max_rating !== undefined && !this.isValidRating(data.max_rating)) {
+      errors.push('max_rating must be an integer between 1 and 5');
+    }
+
+    if (this.isValidRating(data.min_rating) && this.isValidRating(data.max_rating) && data.min_rating > data.max_rating) {
+      errors.push('min_rating must not be greater than max_rating');
+    }
+
+    if (data.since !== undefined && !this.isValidDate(data.since)) {
+      errors.push('since must be an ISO 8601 date');
+    }
+
+    if (data.until !== undefined && !this.isValidDate(data.until)) {
+      errors.push('until must be an ISO 8601 date');
+    }
+
+    if (this.isValidDate(data.since) && this.isValidDate(data.until) && Date.parse(data.since) > Date.parse(data.until)) {
+      errors.push('since must not be after until');
+    }
+
+    if (data.search !== undefined && (typeof data.search !== 'string' || data.search.length > this.MAX_SEARCH_LENGTH)) {
+      errors.push(`search must be a string of at most ${this.MAX_SEARCH_LENGTH} characters`);
+    }
+
+    if (data.review_types !== undefined) {
+      const invalidTypes = this.splitList(data.review_types).filter(type => !this.REVIEW_TYPES.includes(type));
+      if (invalidTypes.length > 0) {
+        errors.push(`review_types must only contain: ${this.REVIEW_TYPES.join(', ')}`);
+      }
+    }
+
+    if (data.min_helpful_votes !== undefined && !(Number.isInteger(data.min_helpful_votes) && data.min_helpful_votes >= 0)) {
+      errors.push('min_helpful_votes must be a non-negative integer');
+    }
+
+    if (data.sort !== undefined && !this.REVIEW_SORTS.includes(data.sort)) {
+      errors.push(`sort must be one of: ${this.REVIEW_SORTS.join(', ')}`);
+    }
+
+    if (data.order !== undefined && data.order !== 'asc' && data.order !== 'desc') {
+      errors.push('order must be asc or desc');
+    }
+
+    return errors;
+  }
+
+  static validateAppSearchRequest(data: any): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (typeof data.term !== 'string' || data.term.trim().length === 0) {
+      errors.push('term is required');
+    } else if (data.term.length > this.MAX_SEARCH_LENGTH) {
+      errors.push(`term must be at most ${this.MAX_SEARCH_LENGTH} characters`);
+    }
+
+    if (data.country !== undefined && !this.isValidCountry(String(data.country).toLowerCase())) {
+      errors.push('country must be a supported storefront code');
+    }
+
+    if (data.lang !== undefined && !this.isValidLanguage(data.lang)) {
+      errors.push('lang must be a language code such as en or de_de');
+    }
+
+    if (data.limit !== undefined && !this.isValidLimit(data.limit)) {
+      errors.push('limit must be an integer between 1 and 200');
+    }
+
+    if (data.entity !== undefined && !this.SEARCH_ENTITIES.includes(data.entity)) {
+      errors.push(`entity must be one of: ${this.SEARCH_ENTITIES.join(', ')}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a comparison request. Competitor IDs are checked for their form
+   * here; whether the source serves them is checked per app when it is fetched.
+   */
+  static validateCompareRequest(data: any): { isValid: boolean; errors: string[] } {
+    const errors: string[] = this.validateAppSelection(data);
+
+    const competitors = this.splitList(data.competitors);
+    if (competitors.length === 0) {
+      errors.push('competitors must contain at least one app ID');
+    } else if (competitors.length > this.MAX_COMPETITORS) {
+      errors.push(`competitors must contain at most ${this.MAX_COMPETITORS} app IDs`);
+    }
+
+    const invalidCompetitors = competitors.filter(appId => !this.isValidAppId(appId));
+    if (invalidCompetitors.length > 0) {
+      errors.push(`competitors contains invalid app IDs: ${invalidCompetitors.join(', ')}`);
+    }
+
+    if (data.app_id && competitors.includes(String(data.app_id).trim())) {
+      errors.push('competitors must not include app_id');
+    }
+
+    if (data.country !== undefined && !this.isValidCountry(String(data.country).toLowerCase())) {
+      errors.push('country must be a supported storefront code');
+    }
+
+    if (data.lang !== undefined && !this.isValidLanguage(data.lang)) {
+      errors.push('lang must be a language code such as en or de_de');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  static validateAppHistoryRequest(data: any): { isValid: boolean; errors: string[] } {
+    const errors: string[] = this.validateAppSelection(data);
+
+    if (data.country !== undefined && !this.isValidCountry(String(data.country).toLowerCase())) {
+      errors.push('country must be a supported storefront code');
+    }
+
+    if (data.lang !== undefined && !this.isValidLanguage(data.lang)) {
+      errors.push('lang must be a language code such as en or de_de');
+    }
+
+    if (data.since !== undefined && !this.isValidDate(data.since)) {
+      errors.push('since must be an ISO 8601 date');
+    }
+
+    if (data.until !== undefined && !this.isValidDate(data.until)) {
+      errors.push('until must be an ISO 8601 date');
+    }
+
+    if (this.isValidDate(data.since) && this.isValidDate(data.until) && Date.parse(data.since) > Date.parse(data.until)) {
+      errors.push('since must not be after until');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a webhook subscription. With `partial` (updates) only the fields
+   * present are checked.
+   */
+  static validateWebhookSubscriptionRequest(data: any, partial: boolean = false): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!this.isPlainObject(data)) {
+      return { isValid: false, errors: ['request body must be a JSON object'] };
+    }
+
+    if (data.bundle_id !== undefined) {
+      errors.push(...this.validateBundleId(data));
+    } else if (data.app_id === undefined) {
+      if (!partial) {
+        errors.push('app_id or bundle_id is required');
+      }
+    } else if (typeof data.app_id !== 'string' || !this.isValidAppId(data.app_id)) {
+      errors.push(this.appIdError());
+    }
+
+    if (data.url === undefined) {
+      if (!partial) {
+        errors.push('url is required');
+      }
+    } else if (!this.isValidWebhookUrl(data.url)) {
+      errors.push('url must be an https URL on a public host');
+    }
+
+    if (data.country !== undefined) {
+      errors.push(...this.validateCountries(data.country));
+    }
+
+    if (data.max_rating !== undefined && !this.isValidRating(data.max_rating)) {
+      errors.push('max_rating must be an integer between 1 and 5');
+    }
+
+    if (data.keywords !== undefined) {
+      const keywords = this.splitList(data.keywords);
+      if (keywords.length > this.MAX_WEBHOOK_KEYWORDS || keywords.some(keyword => keyword.length > this.MAX_SEARCH_LENGTH)) {
+        errors.push(`keywords must contain at most ${this.MAX_WEBHOOK_KEYWORDS} keywords of at most ${this.MAX_SEARCH_LENGTH} characters`);
+      }
+    }
+
+    if (data.format !== undefined && !this.WEBHOOK_FORMATS.includes(data.format)) {
+      errors.push(`format must be one of: ${this.WEBHOOK_FORMATS.join(', ')}`);
+    }
+
+    if (data.active !== undefined && typeof data.active !== 'boolean') {
+      errors.push('active must be a boolean');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Webhook URLs must use https and name a public host. Hostnames are resolved
+   * and checked again when a delivery is sent (see WebhookDispatcher).
+   */
+  static isValidWebhookUrl(url: any): boolean {
+    if (typeof url !== 'string') {
+      return false;
+    }
+
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'https:' &&
+             !parsed.username &&
+             !parsed.password &&
+             NetworkAddress.isPublicHostname(parsed.hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate the shape of a batch request. Individual app IDs are validated
+   * per app so that one bad ID does not fail the whole batch.
+   */
+  static validateMultipleReviewsRequest(data: any): { isValid: boolean; errors: string[] } {
+    if (!this.isPlainObject(data)) {
+      return { isValid: false, errors: ['request body must be a JSON object'] };
+    }
+
     const errors: string[] = [];
 
-    if (!data.app_id) {
-      errors.push('app_id is required');
-    } else if (!this.isValidAppId(data.app_id)) {
-      errors.push('app_id must be a valid numeric string');
+    if (data.app_ids !== undefined && !Array.isArray(data.app_ids)) {
+      errors.push('app_ids must be an array of app IDs');
+    }
+
+    if (data.bundle_ids !== undefined && !Array.isArray(data.bundle_ids)) {
+      errors.push('bundle_ids must be an array of bundle IDs');
+    }
+
+    const appCount = (Array.isArray(data.app_ids) ? data.app_ids.length : 0)
+      + (Array.isArray(data.bundle_ids) ? data.bundle_ids.length : 0);
+    if (errors.length === 0 && appCount === 0) {
+      errors.push('app_ids or bundle_ids must contain at least one app');
+    } else if (appCount > this.MAX_APPS_PER_BATCH) {
+      errors.push(`app_ids and bundle_ids must contain at most ${this.MAX_APPS_PER_BATCH} apps together`);
     }
 
+    if (Array.isArray(data.bundle_ids) && data.platform === 'google_play') {
+      errors.push('bundle_ids are only supported for App Store apps');
+    }
+
+    if (data.limit !== undefined && !this.isValidLimit(data.limit)) {
+      errors.push('limit must be an integer between 1 and 200');
+    }
+
+    if (data.country !== undefined && !this.isValidCountry(String(data.country).toLowerCase())) {
+      errors.push('country must be a supported storefront code');
+    }
+
+    if (data.lang !== undefined && !this.isValidLanguage(data.lang)) {
+      errors.push('lang must be a language code such as en or de_de');
+    }
 
+    if (data.platform !== undefined && !this.isValidPlatform(data.platform)) {
+      errors.push(`platform must be one of: ${this.PLATFORMS.join(', ')}`);
+    }
+
+    // Each app ID is checked against the platform and source when it is fetched
+    const sources: string[] = this.isValidPlatform(data.platform)
+      ? this.PLATFORM_SOURCES[data.platform as Platform]
+      : this.REVIEW_SOURCES;
+    if (data.source !== undefined && !sources.includes(data.source)) {
+      errors.push(`source must be one of: ${sources.join(', ')}`);
+    }
+
+    errors.push(...this.validateMetadataFields(data.fields));
 
     return {
       isValid: errors.length === 0,
@@ -25,12 +453,143 @@ export class Validators {
     };
   }
 
+  /**
+   * Validate app_id, platform and source together: the ID must fit the
+   * platform, which is detected from the ID when not given, and the source
+   * must serve that platform. A bundle_id may be given instead of app_id for
+   * App Store apps.
+   */
+  private static validateAppSelection(data: any): string[] {
+    const errors: string[] = [];
+    const platform: Platform | undefined = data.platform !== undefined && this.isValidPlatform(data.platform)
+      ? data.platform
+      : undefined;
+
+    if (data.platform !== undefined && !platform) {
+      errors.push(`platform must be one of: ${this.PLATFORMS.join(', ')}`);
+    }
+
+    if (data.bundle_id !== undefined) {
+      errors.push(...this.validateBundleId(data));
+      if (platform === 'google_play') {
+        errors.push('bundle_id is only supported for App Store apps');
+        return errors;
+      }
+    } else if (!data.app_id) {
+      errors.push('app_id or bundle_id is required');
+    } else if (!this.isValidAppId(data.app_id, platform)) {
+      errors.push(this.appIdError(platform));
+      return errors;
+    }
+
+    const sourcePlatform = data.bundle_id !== undefined
+      ? 'app_store'
+      : platform ?? (data.app_id ? this.detectPlatform(data.app_id) : undefined);
+    if (data.source !== undefined && !this.isValidSource(data.source, sourcePlatform)) {
+      const sources = sourcePlatform ? this.PLATFORM_SOURCES[sourcePlatform] : this.REVIEW_SOURCES;
+      errors.push(`source must be one of: ${sources.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  private static validateBundleId(data: any): string[] {
+    const errors: string[] = [];
+
+    if (data.app_id) {
+      errors.push('app_id and bundle_id cannot be used together');
+    }
+
+    if (!this.isValidBundleId(data.bundle_id)) {
+      errors.push('bundle_id must be an App Store bundle ID such as com.example.app');
+    }
+
+    return errors;
+  }
+
+  private static appIdError(platform?: Platform): string {
+    switch (platform) {
+      case 'app_store':
+        return 'app_id must be a numeric App Store ID';
+      case 'google_play':
+        return 'app_id must be a Google Play package name such as com.example.app';
+      default:
+        return 'app_id must be a numeric App Store ID or a Google Play package name';
+    }
+  }
+
+  static validateMetadataFields(fields?: string | string[]): string[] {
+    if (fields === undefined) {
+      return [];
+    }
+
+    const invalidFields = this.splitList(fields).filter(field => !(MetadataFields.FIELDS as string[]).includes(field));
+    return invalidFields.length > 0 ? [`fields contains unknown metadata fields: ${invalidFields.join(', ')}`] : [];
+  }
+
+  /**
+   * Resolve the country parameter to a de-duplicated list of storefront codes.
+   * Accepts a single code, a comma-separated list, an array or 'all'.
+   */
+  static parseCountries(country?: string | string[]): string[] {
+    if (this.isAllCountries(country)) {
+      return [...APP_STORE_STOREFRONTS];
+    }
 
+    const countries = this.splitCountries(country);
+    return countries.length > 0 ? Array.from(new Set(countries)) : ['us'];
+  }
+
+  /**
+   * Whether the country parameter asks for every storefront
+   */
+  static isAllCountries(country?: string | string[]): boolean {
+    return this.splitCountries(country).includes('all');
+  }
+
+  /**
+   * Validate a storefront list: known codes only, and at most
+   * MAX_COUNTRIES_PER_REQUEST of them unless all storefronts are requested
+   */
+  private static validateCountries(country: string | string[]): string[] {
+    const countries = Array.from(new Set(this.splitCountries(country)));
+    const errors: string[] = [];
+
+    const invalidCountries = countries.filter(code => code !== 'all' && !this.isValidCountry(code));
+    if (invalidCountries.length > 0) {
+      errors.push(`country contains unknown storefronts: ${invalidCountries.join(', ')}`);
+    }
+
+    if (!countries.includes('all') && countries.length > this.MAX_COUNTRIES_PER_REQUEST) {
+      errors.push(`country must be 'all' or list at most ${this.MAX_COUNTRIES_PER_REQUEST} storefronts`);
+    }
+
+    return errors;
+  }
+
+  private static splitCountries(country?: string | string[]): string[] {
+    return this.splitList(country).map(value => value.toLowerCase());
+  }
+
+  /**
+   * Split a comma-separated string or array parameter into trimmed, non-empty values
+   */
+  static splitList(value?: string | string[]): string[] {
+    const values = Array.isArray(value) ? value : (value ?? '').split(',');
+    return values.map(item => String(item).trim()).filter(item => item.length > 0);
+  }
 
   static sanitizeAppId(appId: string): string {
     return appId.trim();
   }
 
+  /**
+   * Normalize a language code to the lowercase underscore form iTunes expects (de_de)
+   */
+  static sanitizeLanguage(lang: string): string {
+    return lang.trim().toLowerCase().replace('-', '_');
+  }
+
   static sanitizeLimit(limit: number, maxLimit: number = 200): number {
     return Math.min(Math.max(1, Math.floor(limit)), maxLimit);
   }
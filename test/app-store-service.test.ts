@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppStoreService } from '../src/services/app-store-service';
+import { UpstreamClient } from '../src/services/upstream-client';
+import { UpstreamFixtures } from '../src/utils/upstream-fixtures';
+import { AppNotFoundError, BadGatewayError } from '../src/utils/errors';
+import { createTestEnv, FIXTURE_APP_ID } from './helpers';
+
+describe('AppStoreService', () => {
+  const service = new AppStoreService(createTestEnv());
+
+  it('maps iTunes lookup results to app metadata', async () => {
+    const metadata = await service.getAppMetadata(FIXTURE_APP_ID, 'us');
+
+    assert.equal(metadata.app_id, FIXTURE_APP_ID);
+    assert.equal(metadata.name, 'Example Notes');
+    assert.equal(metadata.bundle_id, 'com.example.notes');
+    assert.equal(metadata.platform, 'app_store');
+    assert.equal(metadata.rating, 4.6);
+    assert.equal(metadata.rating_count, 18250);
+    assert.equal(metadata.developer_id, '1234500000');
+    assert.equal(metadata.file_size_bytes, 48211968);
+    assert.equal(metadata.url, `https://apps.apple.com/app/id${FIXTURE_APP_ID}`);
+  });
+
+  it('throws AppNotFoundError when the lookup has no results', async () => {
+    await assert.rejects(service.getAppMetadata('999999999', 'us'), AppNotFoundError);
+  });
+
+  it('surfaces upstream failures as BadGatewayError', async () => {
+    // No fixture is recorded for the GB storefront
+    await assert.rejects(service.getAppMetadata(FIXTURE_APP_ID, 'gb'), BadGatewayError);
+  });
+
+  it('merges the review feeds of every sort order', async () => {
+    const { reviews, sources } = await service.getReviews(FIXTURE_APP_ID, 'us');
+
+    assert.equal(reviews.length, 4);
+    assert.deepEqual(reviews.map(review => review.author), ['notetaker', 'grumpy_user', 'casual', 'commuter']);
+    assert.equal(reviews[1].id, 'appstore_10002');
+    assert.deepEqual(reviews[1].review_types, ['mostRecent', 'mostHelpful', 'mostCritical']);
+    assert.equal(reviews[1].rating, 1);
+    assert.equal(reviews[1].helpful_votes, 12);
+    assert.equal(reviews[1].version, '3.2.0');
+
+    assert.equal(sources.length, 4);
+    assert.ok(sources.every(source => source.status === 'ok' && source.page === 1));
+  });
+
+  it('reports failed feeds instead of throwing', async () => {
+    const { reviews, sources } = await service.getReviews(FIXTURE_APP_ID, 'gb');
+
+    assert.equal(reviews.length, 0);
+    assert.equal(sources.length, 4);
+    assert.ok(sources.every(source => source.status === 'failed' && source.error_code === 'BAD_GATEWAY'));
+  });
+
+  it('fetches every review since a date, past MAX_REVIEWS_PER_APP', async () => {
+    const capped = new AppStoreService(createTestEnv({ MAX_REVIEWS_PER_APP: '1' }));
+    const { reviews, sources } = await capped.getReviewsSince(FIXTURE_APP_ID, 'us', '2026-10-01T00:00:00Z');
+
+    assert.deepEqual(reviews.map(review => review.date), ['2026-10-12T09:15:00-07:00', '2026-10-10T18:40:00-07:00']);
+    assert.deepEqual(sources.map(({ feed, status }) => ({ feed, status })), [{ feed: 'mostRecent', status: 'ok' }]);
+  });
+
+  it('passes the language to the lookup and review feeds', async () => {
+    const env = createTestEnv();
+    const fixtures = UpstreamFixtures.fetchFor(env);
+    const urls: string[] = [];
+    // Record the requested URLs and replay the fixtures recorded without a language
+    const localized = new AppStoreService(env, new UpstreamClient(env, (url, init) => {
+      urls.push(url);
+      const unlocalized = new URL(url);
+      unlocalized.searchParams.delete('lang');
+      unlocalized.searchParams.delete('l');
+      return fixtures(unlocalized.toString(), init);
+    }));
+
+    const { metadata, reviews } = await localized.getAppWithReviews(FIXTURE_APP_ID, 'us', 'de');
+
+    assert.equal(metadata.app_id, FIXTURE_APP_ID);
+    assert.equal(reviews.length, 4);
+    assert.equal(urls.length, 5);
+    assert.ok(urls.some(url => url.startsWith('https://itunes.apple.com/lookup?') && url.includes('lang=de')));
+    assert.ok(urls.filter(url => url.includes('/rss/customerreviews/')).every(url => url.endsWith('/json?l=de')));
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ASOMarketService } from '../src/services/aso-market-service';
+import { AppNotFoundError, BadGatewayError } from '../src/utils/errors';
+import { createTestEnv, FIXTURE_APP_ID } from './helpers';
+
+describe('ASOMarketService', () => {
+  const service = new ASOMarketService(createTestEnv());
+
+  it('maps app metadata', async () => {
+    const metadata = await service.getAppMetadata(FIXTURE_APP_ID, 'us');
+
+    assert.equal(metadata.app_id, FIXTURE_APP_ID);
+    assert.equal(metadata.name, 'Example Notes');
+    assert.equal(metadata.rating, 4.5);
+    assert.equal(metadata.reviews_count, 2140);
+    assert.equal(metadata.country, 'us');
+  });
+
+  it('maps reviews and reports them as one feed', async () => {
+    const { reviews, sources } = await service.getReviews(FIXTURE_APP_ID, 'us');
+
+    assert.equal(reviews.length, 2);
+    assert.equal(reviews[0].id, 'appstore_aso-501');
+    assert.equal(reviews[0].author, 'daily_notes');
+    assert.equal(reviews[0].rating, 5);
+    assert.equal(reviews[0].platform, 'app_store');
+    assert.deepEqual(sources, [{ source: 'aso_market', country: 'us', feed: 'reviews', page: 1, status: 'ok', reviews_count: 2 }]);
+  });
+
+  it('reports a failed request in sources', async () => {
+    const { reviews, sources } = await service.getReviews(FIXTURE_APP_ID, 'us', undefined, 10);
+
+    assert.equal(reviews.length, 0);
+    assert.equal(sources[0].status, 'failed');
+    assert.equal(sources[0].error_code, 'BAD_GATEWAY');
+  });
+
+  it('throws AppNotFoundError when ASO Market does not know the app', async () => {
+    await assert.rejects(service.getAppMetadata('999999999', 'us'), AppNotFoundError);
+  });
+
+  it('throws BadGatewayError when metadata cannot be fetched', async () => {
+    await assert.rejects(service.getAppMetadata('888888888', 'us'), BadGatewayError);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { CompareHandler } from '../src/handlers/compare-handler';
+import { CompareResponse, ErrorResponse } from '../src/types';
+import { createTestEnv, FIXTURE_APP_ID } from './helpers';
+
+function get(path: string): NextRequest {
+  return new NextRequest(`http://localhost${path}`);
+}
+
+describe('CompareHandler', () => {
+  const handler = new CompareHandler(createTestEnv());
+
+  it('resolves the primary app from its bundle ID', async () => {
+    const response = await handler.handleCompare(
+      get('/api/compare?bundle_id=com.example.notes&competitors=999999999&source=itunes')
+    );
+    assert.equal(response.status, 200);
+
+    const body = await response.json() as CompareResponse;
+    assert.equal(body.app_id, FIXTURE_APP_ID);
+    assert.equal(body.primary.app_id, FIXTURE_APP_ID);
+    assert.equal(body.competitors.length, 1);
+    assert.equal(body.competitors[0].success, false);
+  });
+
+  it('rejects competitors that include the app named by bundle ID', async () => {
+    const response = await handler.handleCompare(
+      get(`/api/compare?bundle_id=com.example.notes&competitors=${FIXTURE_APP_ID}&source=itunes`)
+    );
+    assert.equal(response.status, 400);
+
+    const body = await response.json() as ErrorResponse;
+    assert.equal(body.code, 'VALIDATION_ERROR');
+    assert.equal(body.message, 'competitors must not include app_id');
+  });
+});
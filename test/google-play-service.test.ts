@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GooglePlayService } from '../src/services/google-play-service';
+import { UpstreamClient } from '../src/services/upstream-client';
+import { BadGatewayError } from '../src/utils/errors';
+import { createTestEnv } from './helpers';
+
+describe('GooglePlayService', () => {
+  const env = createTestEnv();
+  // A reviews RPC response whose inner payload has been cut off
+  const truncated = `)]}'\n${JSON.stringify([['wrb.fr', 'UsvDTd', '[[["gp:AOqpTOH', null, null, null, null, null, 'generic']])}`;
+  const service = new GooglePlayService(env, new UpstreamClient(env, async () => new Response(truncated, { status: 200 })));
+
+  it('reports a malformed reviews payload as a bad gateway', async () => {
+    const { reviews, sources } = await service.getReviews('com.example.notes', 'us');
+
+    assert.equal(reviews.length, 0);
+    assert.equal(sources.length, 2);
+    assert.ok(sources.every(source => source.status === 'failed' && source.error_code === 'BAD_GATEWAY'));
+  });
+
+  it('throws BadGatewayError for a malformed payload when fetching recent reviews', async () => {
+    await assert.rejects(service.getReviewsSince('com.example.notes', 'us', '2026-01-01T00:00:00.000Z'), BadGatewayError);
+  });
+});
@@ -0,0 +1,26 @@
+import { Env } from '../src/types';
+
+// Relative to the repository root, where `npm test` runs
+export const FIXTURES_DIR = 'test/fixtures/upstream';
+
+// App with recorded iTunes and ASO Market responses in FIXTURES_DIR
+export const FIXTURE_APP_ID = '1234567890';
+
+/**
+ * Environment for tests: upstream requests are replayed from FIXTURES_DIR,
+ * failures are not retried and storage is in memory
+ */
+export function createTestEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    ENVIRONMENT: 'test',
+    MAX_REVIEWS_PER_APP: '200',
+    REQUEST_TIMEOUT_MS: '10000',
+    RATE_LIMIT_REQUESTS_PER_MINUTE: '60',
+    UPSTREAM_MAX_RETRIES: '0',
+    CIRCUIT_BREAKER_FAILURE_THRESHOLD: '1000',
+    STORAGE_PATH: ':memory:',
+    UPSTREAM_FIXTURES_MODE: 'replay',
+    UPSTREAM_FIXTURES_DIR: FIXTURES_DIR,
+    ...overrides
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest, NextResponse } from 'next/server';
+import { RateLimiter } from '../src/services/rate-limiter';
+import { ApiKeyAuth } from '../src/services/api-key-auth';
+import { ConfigApiKeyStore } from '../src/utils/api-key-store';
+import { MemoryRateLimitStore } from '../src/utils/rate-limit-store';
+import { RequestCost } from '../src/utils/request-cost';
+import { createTestEnv } from './helpers';
+
+function createLimiter(): RateLimiter {
+  const env = createTestEnv({ RATE_LIMIT_REQUESTS_PER_MINUTE: '2', API_KEYS: 'valid-key' });
+  return new RateLimiter(env, new MemoryRateLimitStore(), new ApiKeyAuth(env, new ConfigApiKeyStore(env), new MemoryRateLimitStore()));
+}
+
+function get(apiKey: string, ip: string = '203.0.113.7'): NextRequest {
+  return new NextRequest('http://localhost/api/reviews', { headers: { 'x-api-key': apiKey, 'x-forwarded-for': ip } });
+}
+
+const ok = async () => NextResponse.json({ ok: true });
+
+describe('RateLimiter', () => {
+  it('buckets unknown API keys by IP address', async () => {
+    const limiter = createLimiter();
+    const statuses: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await limiter.handle(get(`made-up-${i}`), ok)).status);
+    }
+    assert.deepEqual(statuses, [200, 200, 429, 429]);
+  });
+
+  it('gives a valid API key its own bucket', async () => {
+    const limiter = createLimiter();
+    await limiter.handle(get('made-up-1'), ok);
+    await limiter.handle(get('made-up-2'), ok);
+
+    assert.equal((await limiter.handle(get('made-up-3'), ok)).status, 429);
+    assert.equal((await limiter.handle(get('valid-key'), ok)).status, 200);
+    assert.equal((await limiter.handle(get('valid-key', '198.51.100.1'), ok)).status, 200);
+    assert.equal((await limiter.handle(get('valid-key', '198.51.100.2'), ok)).status, 429);
+  });
+
+  it('counts a request as many times as its cost', async () => {
+    const limiter = createLimiter();
+    assert.equal((await limiter.handle(get('made-up'), ok, 3)).status, 429);
+    assert.equal((await limiter.handle(get('made-up'), ok, 2)).status, 200);
+    assert.equal((await limiter.handle(get('made-up'), ok)).status, 429);
+  });
+});
+
+describe('RequestCost', () => {
+  it('costs one per requested storefront', async () => {
+    assert.equal(await RequestCost.countries(new NextRequest('http://localhost/api/reviews?app_id=1')), 1);
+    assert.equal(await RequestCost.countries(new NextRequest('http://localhost/api/reviews?country=us,gb,de,us')), 3);
+  });
+
+  it('reads the storefronts of a POST body without consuming it', async () => {
+    const request = new NextRequest('http://localhost/api/reviews', {
+      method: 'POST',
+      body: JSON.stringify({ app_id: '1', country: ['us', 'gb'] })
+    });
+    assert.equal(await RequestCost.countries(request), 2);
+    assert.deepEqual((await request.json() as { country: string[] }).country, ['us', 'gb']);
+  });
+
+  it('costs one per app for batch requests and comparisons', async () => {
+    const batch = new NextRequest('http://localhost/api/reviews/multiple', {
+      method: 'POST',
+      body: JSON.stringify({ app_ids: ['1', '2', '3'], bundle_ids: ['com.example.notes'] })
+    });
+    assert.equal(await RequestCost.apps(batch), 4);
+    assert.equal(await RequestCost.apps(new NextRequest('http://localhost/api/compare?app_id=1&competitors=2,3')), 3);
+  });
+});
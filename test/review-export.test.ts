@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReviewExport } from '../src/utils/review-export';
+
+describe('ReviewExport', () => {
+  it('quotes fields with delimiters, quotes and line breaks', () => {
+    assert.equal(ReviewExport.escapeCsv('plain'), 'plain');
+    assert.equal(ReviewExport.escapeCsv('a, "b"\nc'), '"a, ""b""\nc"');
+  });
+
+  it('neutralizes fields a spreadsheet would run as a formula', () => {
+    assert.equal(ReviewExport.escapeCsv('=HYPERLINK("http://evil.example","click")'), `"'=HYPERLINK(""http://evil.example"",""click"")"`);
+    assert.equal(ReviewExport.escapeCsv('+1'), `'+1`);
+    assert.equal(ReviewExport.escapeCsv('-2+3'), `'-2+3`);
+    assert.equal(ReviewExport.escapeCsv('@SUM(A1)'), `'@SUM(A1)`);
+    assert.equal(ReviewExport.escapeCsv('\tcmd'), `'\tcmd`);
+    assert.equal(ReviewExport.escapeCsv('\rcmd'), `"'\rcmd"`);
+    assert.equal(ReviewExport.escapeCsv('Great app = 5 stars'), 'Great app = 5 stars');
+  });
+});
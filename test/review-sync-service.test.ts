@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReviewSyncService } from '../src/services/review-sync-service';
+import { ReviewSourceService } from '../src/services/review-source-service';
+import { SqliteReviewRepository } from '../src/storage/sqlite-review-repository';
+import { createTestEnv, FIXTURE_APP_ID } from './helpers';
+
+describe('ReviewSyncService', () => {
+  const env = createTestEnv();
+
+  it('stores the reviews of a complete sync and moves the cursor', async () => {
+    const repository = await SqliteReviewRepository.open(':memory:');
+    const sync = new ReviewSyncService(env, new ReviewSourceService(env), Promise.resolve(repository));
+
+    const result = await sync.sync(FIXTURE_APP_ID, 'us', { source: 'aso_market' });
+
+    assert.equal(result.success, true);
+    assert.equal(result.inserted, 2);
+    assert.equal(result.latest_review_date, '2026-10-14T10:00:00Z');
+    assert.equal((await repository.getSyncState(FIXTURE_APP_ID, 'us'))?.latest_review_date, '2026-10-14T10:00:00Z');
+  });
+
+  it('reports a failed source and keeps the sync state', async () => {
+    const repository = await SqliteReviewRepository.open(':memory:');
+    const sync = new ReviewSyncService(env, new ReviewSourceService(env), Promise.resolve(repository));
+
+    // No ASO Market fixture is recorded for the GB storefront
+    const result = await sync.sync(FIXTURE_APP_ID, 'gb', { source: 'aso_market' });
+
+    assert.equal(result.success, false);
+    assert.equal(result.fetched, 0);
+    assert.equal(result.latest_review_date, null);
+    assert.ok(result.error);
+    assert.equal(await repository.getSyncState(FIXTURE_APP_ID, 'gb'), null);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { ReviewsHandler } from '../src/handlers/reviews-handler';
+import { ErrorResponse, MultipleReviewsResponse, ReviewStatsResponse, ReviewsResponse } from '../src/types';
+import { RequestCost } from '../src/utils/request-cost';
+import { APP_STORE_STOREFRONTS } from '../src/utils/storefronts';
+import { Validators } from '../src/utils/validators';
+import { createTestEnv, FIXTURE_APP_ID } from './helpers';
+
+function get(path: string): NextRequest {
+  return new NextRequest(`http://localhost${path}`);
+}
+
+describe('ReviewsHandler', () => {
+  const handler = new ReviewsHandler(createTestEnv());
+
+  it('serves an app with its iTunes reviews', async () => {
+    const response = await handler.handleSingleAppReviews(get(`/api/reviews?app_id=${FIXTURE_APP_ID}`));
+    assert.equal(response.status, 200);
+
+    const body = await response.json() as ReviewsResponse;
+    assert.equal(body.app_id, FIXTURE_APP_ID);
+    assert.equal(body.app_metadata?.name, 'Example Notes');
+    assert.equal(body.source, 'itunes');
+    assert.equal(body.total_reviews, 4);
+    assert.equal(body.partial, false);
+    assert.deepEqual(body.version_breakdown?.map(version => version.version), ['3.2.0', '3.1.0']);
+  });
+
+  it('filters and sorts reviews', async () => {
+    const response = await handler.handleSingleAppReviews(
+      get(`/api/reviews?app_id=${FIXTURE_APP_ID}&max_rating=2&sort=helpfulness`)
+    );
+    assert.equal(response.status, 200);
+
+    const body = await response.json() as ReviewsResponse;
+    assert.deepEqual(body.reviews.map(review => review.author), ['grumpy_user', 'commuter']);
+  });
+
+  it('serves reviews from ASO Market when asked', async () => {
+    const response = await handler.handleSingleAppReviews(get(`/api/reviews?app_id=${FIXTURE_APP_ID}&source=aso_market`));
+    assert.equal(response.status, 200);
+
+    const body = await response.json() as ReviewsResponse;
+    assert.equal(body.source, 'aso_market');
+    assert.equal(body.total_reviews, 2);
+  });
+
+  it('computes review statistics', async () => {
+    const response = await handler.handleReviewStats(get(`/api/reviews/stats?app_id=${FIXTURE_APP_ID}`));
+    assert.equal(response.status, 200);
+
+    const body = await response.json() as ReviewStatsResponse;
+    assert.equal(body.total_reviews, 4);
+    assert.equal(body.stats.average_rating, 3);
+  });
+
+  it('varies negotiated responses on the Accept header', async () => {
+    const json = await handler.handleSingleAppReviews(get(`/api/reviews?app_id=${FIXTURE_APP_ID}`));
+    assert.equal(json.headers.get('vary'), 'Accept');
+
+    const notModified = await handler.handleSingleAppReviews(new NextRequest(`http://localhost/api/reviews?app_id=${FIXTURE_APP_ID}`, {
+      headers: { 'If-None-Match': json.headers.get('etag')! }
+    }));
+    assert.equal(notModified.status, 304);
+    assert.equal(notModified.headers.get('vary'), 'Accept');
+
+    const csv = await handler.handleSingleAppReviews(new NextRequest(`http://localhost/api/reviews?app_id=${FIXTURE_APP_ID}`, {
+      headers: { Accept: 'text/csv' }
+    }));
+    assert.equal(csv.headers.get('content-type'), 'text/csv; charset=utf-8');
+    assert.equal(csv.headers.get('vary'), 'Accept');
+  });
+
+  it('returns 404 for an unknown app', async () => {
+    const response = await handler.handleSingleAppReviews(get('/api/reviews?app_id=999999999&source=itunes'));
+    assert.equal(response.status, 404);
+    assert.equal((await response.json() as ErrorResponse).code, 'NOT_FOUND');
+  });
+
+  it('returns 404 for an unknown app without metadata too', async () => {
+    const response = await handler.handleSingleAppReviews(get('/api/reviews?app_id=999999999&source=itunes&include_metadata=false'));
+    assert.equal(response.status, 404);
+
+    const known = await handler.handleSingleAppReviews(get(`/api/reviews?app_id=${FIXTURE_APP_ID}&include_metadata=false`));
+    assert.equal(known.status, 200);
+    assert.equal((await known.json() as ReviewsResponse).app_metadata, undefined);
+
+    const batch = await handler.handleMultipleAppReviews(new NextRequest('http://localhost/api/reviews/multiple', {
+      method: 'POST',
+      body: JSON.stringify({ app_ids: ['999999999'], source: 'itunes', include_metadata: false })
+    }));
+    const [result] = (await batch.json() as MultipleReviewsResponse).results;
+    assert.equal(result.success, false);
+    assert.equal(result.error?.code, 'NOT_FOUND');
+  });
+
+  it('rejects POST bodies that are not JSON objects', async () => {
+    for (const body of ['null', '[]', '"x"', '42']) {
+      const request = new NextRequest('http://localhost/api/reviews', { method: 'POST', body });
+      const response = await handler.handleSingleAppReviewsPost(request);
+      assert.equal(response.status, 400, body);
+      assert.equal((await response.json() as ErrorResponse).message, 'request body must be a JSON object');
+    }
+  });
+
+  it('limits how many storefronts a request can list', async () => {
+    const countries = ['us', 'gb', 'de', 'fr', 'it', 'es', 'ca', 'au', 'jp', 'br', 'mx'];
+    const response = await handler.handleSingleAppReviews(get(`/api/reviews?app_id=${FIXTURE_APP_ID}&country=${countries.join(',')}`));
+    assert.equal(response.status, 400);
+  });
+
+  it('accepts country=all and charges it for every storefront', async () => {
+    const request = get(`/api/reviews?app_id=${FIXTURE_APP_ID}&country=all`);
+    assert.equal(Validators.validateReviewsRequest({ app_id: FIXTURE_APP_ID, country: 'all' }).isValid, true);
+    assert.equal(await RequestCost.countries(request), APP_STORE_STOREFRONTS.length);
+  });
+
+  it('rejects an invalid app ID', async () => {
+    const response = await handler.handleSingleAppReviews(get('/api/reviews?app_id=not-an-id'));
+    assert.equal(response.status, 400);
+    assert.equal((await response.json() as ErrorResponse).code, 'VALIDATION_ERROR');
+  });
+});
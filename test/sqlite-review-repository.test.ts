@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteReviewRepository } from '../src/storage/sqlite-review-repository';
+import { AppReview } from '../src/types';
+import { FIXTURE_APP_ID } from './helpers';
+
+describe('SqliteReviewRepository', () => {
+  const review = (reviewTypes: string[]): AppReview => ({
+    id: 'appstore_10002',
+    rating: 1,
+    title: 'Lost my notes',
+    content: 'Everything vanished after the update.',
+    author: 'grumpy_user',
+    date: '2026-10-12T08:30:00.000Z',
+    helpful_votes: 12,
+    version: '3.2.0',
+    app_id: FIXTURE_APP_ID,
+    platform: 'app_store',
+    country: 'us',
+    review_types: reviewTypes
+  });
+
+  it('keeps the review types of earlier syncs when a review is seen in another feed', async () => {
+    const repository = await SqliteReviewRepository.open(':memory:');
+
+    const first = await repository.upsertReviews(FIXTURE_APP_ID, 'us', [review(['mostHelpful'])], '2026-10-18T00:00:00.000Z');
+    const second = await repository.upsertReviews(FIXTURE_APP_ID, 'us', [review(['mostRecent', 'mostHelpful'])], '2026-10-19T00:00:00.000Z');
+    const [stored] = await repository.getReviews(FIXTURE_APP_ID, 'us');
+
+    assert.deepEqual(first, { inserted: 1, updated: 0 });
+    assert.deepEqual(second, { inserted: 0, updated: 1 });
+    assert.deepEqual(stored.review_types, ['mostHelpful', 'mostRecent']);
+    assert.equal(stored.first_seen, '2026-10-18T00:00:00.000Z');
+    assert.equal(stored.last_seen, '2026-10-19T00:00:00.000Z');
+  });
+});
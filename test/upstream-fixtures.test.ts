@@ -0,0 +1,73 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UpstreamFixtures } from '../src/utils/upstream-fixtures';
+import { BadGatewayError } from '../src/utils/errors';
+import { createTestEnv } from './helpers';
+
+describe('UpstreamFixtures', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'upstream-fixtures-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded response without calling upstream', async () => {
+    const url = 'https://itunes.apple.com/lookup?id=1&country=us';
+    let upstreamCalls = 0;
+    const recorder = new UpstreamFixtures('record', dir, async () => {
+      upstreamCalls++;
+      return new Response(JSON.stringify({ resultCount: 0, results: [] }), {
+        status: 200,
+        headers: { 'content-type': 'text/javascript; charset=utf-8', 'set-cookie': 'session=1' }
+      });
+    });
+
+    const recorded = await recorder.fetch(url);
+    assert.deepEqual(await recorded.json(), { resultCount: 0, results: [] });
+
+    const fixture = JSON.parse(fs.readFileSync(path.join(dir, UpstreamFixtures.getFileName('GET', url)), 'utf8'));
+    assert.equal(fixture.request.url, url);
+    assert.deepEqual(fixture.response.json, { resultCount: 0, results: [] });
+    assert.equal(fixture.response.headers['set-cookie'], undefined);
+
+    const replayer = new UpstreamFixtures('replay', dir, async () => {
+      throw new Error('upstream must not be called in replay mode');
+    });
+    const replayed = await replayer.fetch(url);
+    assert.equal(replayed.status, 200);
+    assert.equal(replayed.headers.get('content-type'), 'text/javascript; charset=utf-8');
+    assert.deepEqual(await replayed.json(), { resultCount: 0, results: [] });
+    assert.equal(upstreamCalls, 1);
+  });
+
+  it('keys fixtures by method, URL and body', () => {
+    const url = 'https://example.com/api';
+    const names = new Set([
+      UpstreamFixtures.getFileName('GET', url),
+      UpstreamFixtures.getFileName('POST', url),
+      UpstreamFixtures.getFileName('POST', url, 'a=1'),
+      UpstreamFixtures.getFileName('GET', `${url}?page=2`)
+    ]);
+    assert.equal(names.size, 4);
+    assert.match(UpstreamFixtures.getFileName('GET', url), /^example\.com-[0-9a-f]{16}\.json$/);
+  });
+
+  it('fails in replay mode when a request has no fixture', async () => {
+    const replayer = new UpstreamFixtures('replay', dir);
+    await assert.rejects(replayer.fetch('https://itunes.apple.com/lookup?id=2&country=us'), BadGatewayError);
+  });
+
+  it('reads the mode from the environment', () => {
+    assert.equal(UpstreamFixtures.getMode(createTestEnv()), 'replay');
+    assert.equal(UpstreamFixtures.getMode(createTestEnv({ UPSTREAM_FIXTURES_MODE: 'RECORD' })), 'record');
+    assert.equal(UpstreamFixtures.getMode(createTestEnv({ UPSTREAM_FIXTURES_MODE: undefined })), 'off');
+    assert.equal(UpstreamFixtures.getMode(createTestEnv({ UPSTREAM_FIXTURES_MODE: 'sometimes' })), 'off');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebhookService } from '../src/services/webhook-service';
+import { ReviewSourceService } from '../src/services/review-source-service';
+import { WebhookDispatcher } from '../src/services/webhook-dispatcher';
+import { AppReview, ReviewFetchOptions, ReviewSource, WebhookDelivery, WebhookSubscription } from '../src/types';
+import { createTestEnv, FIXTURE_APP_ID } from './helpers';
+
+/**
+ * Serves one recorded source's reviews for every storefront, as if the other
+ * source were down. Reviews can be held back, and a failed feed added.
+ */
+class FakeReviewSourceService extends ReviewSourceService {
+  source: ReviewSource = 'itunes';
+  hiddenIds = new Set<string>();
+  failFeed = false;
+
+  async getReviews(appId: string, _country: string = 'us', options: ReviewFetchOptions = {}) {
+    const fetched = await super.getReviews(appId, 'us', { ...options, source: this.source });
+    const reviews = fetched.reviews.filter(review => !this.hiddenIds.has(review.id));
+    const sources = this.failFeed
+      ? [...fetched.sources, { ...fetched.sources[0], status: 'failed' as const, reviews_count: 0 }]
+      : fetched.sources;
+    return { ...fetched, reviews, sources };
+  }
+}
+
+/**
+ * Records deliveries instead of sending them
+ */
+class FakeDispatcher extends WebhookDispatcher {
+  succeed = true;
+  delivered: string[][] = [];
+
+  async deliver(subscription: WebhookSubscription, country: string, reviews: AppReview[]): Promise<WebhookDelivery> {
+    this.delivered.push(reviews.map(review => review.id));
+    return {
+      id: `delivery-${this.delivered.length}`,
+      subscription_id: subscription.id,
+      app_id: subscription.app_id,
+      country,
+      review_ids: reviews.map(review => review.id),
+      success: this.succeed,
+      attempts: 1,
+      error: this.succeed ? undefined : 'HTTP 500',
+      created_at: new Date().toISOString()
+    };
+  }
+}
+
+describe('WebhookService', () => {
+  const env = createTestEnv();
+  const service = new WebhookService(env, new ReviewSourceService(env));
+  const request = { app_id: FIXTURE_APP_ID, url: 'https://example.com/hooks/reviews' };
+
+  it('only shows subscriptions to the API key that created them', async () => {
+    const subscription = await service.create(request, 'key-a');
+    assert.ok(subscription.secret);
+    assert.equal(subscription.owner_key_id, undefined);
+
+    assert.deepEqual((await service.list('key-a')).map(({ id }) => id), [subscription.id]);
+    assert.deepEqual(await service.list('key-b'), []);
+    assert.deepEqual(await service.list(), []);
+
+    assert.equal((await service.get(subscription.id, 'key-a'))?.id, subscription.id);
+    assert.equal(await service.get(subscription.id, 'key-b'), null);
+    assert.equal(await service.get(subscription.id), null);
+  });
+
+  it('keeps other API keys from changing, reading or polling a subscription', async () => {
+    const subscription = await service.create(request, 'key-a');
+
+    assert.equal(await service.update(subscription.id, { active: false }, 'key-b'), null);
+    assert.equal(await service.getDeliveries(subscription.id, 10, 'key-b'), null);
+    assert.equal((await service.poll(subscription.id, 'key-b')).total_subscriptions, 0);
+    assert.equal(await service.delete(subscription.id, 'key-b'), false);
+
+    assert.equal((await service.get(subscription.id, 'key-a'))?.active, true);
+    assert.deepEqual(await service.getDeliveries(subscription.id, 10, 'key-a'), []);
+    assert.equal(await service.delete(subscription.id, 'key-a'), true);
+  });
+
+  it('does not alert on known reviews again when the review source changes', async () => {
+    const reviewSource = new FakeReviewSourceService(env);
+    const polling = new WebhookService(env, reviewSource);
+    const subscription = await polling.create({ ...request, max_rating: 5 });
+
+    const baseline = (await polling.poll(subscription.id)).results[0];
+    assert.equal(baseline.baseline, true);
+
+    reviewSource.source = 'aso_market';
+    const afterFallback = (await polling.poll(subscription.id)).results[0];
+    assert.equal(afterFallback.baseline, true);
+    assert.equal(afterFallback.matched_reviews, 0);
+    assert.equal(afterFallback.delivery, undefined);
+
+    const next = (await polling.poll(subscription.id)).results[0];
+    assert.equal(next.baseline, false);
+    assert.equal(next.new_reviews, 0);
+  });
+
+  it('skips storefronts whose feeds did not all load', async () => {
+    const reviewSource = new FakeReviewSourceService(env);
+    const polling = new WebhookService(env, reviewSource, undefined, new FakeDispatcher(env));
+    const subscription = await polling.create({ ...request, max_rating: 5 });
+
+    reviewSource.failFeed = true;
+    const partial = (await polling.poll(subscription.id)).results[0];
+    assert.equal(partial.success, false);
+    assert.equal(partial.baseline, false);
+
+    reviewSource.failFeed = false;
+    assert.equal((await polling.poll(subscription.id)).results[0].baseline, true);
+  });
+
+  it('delivers the reviews of a failed delivery again on the next poll', async () => {
+    const reviewSource = new FakeReviewSourceService(env);
+    const dispatcher = new FakeDispatcher(env);
+    const polling = new WebhookService(env, reviewSource, undefined, dispatcher);
+    const subscription = await polling.create(request);
+
+    reviewSource.hiddenIds.add('appstore_10002');
+    await polling.poll(subscription.id);
+    reviewSource.hiddenIds.clear();
+
+    dispatcher.succeed = false;
+    const failed = (await polling.poll(subscription.id)).results[0];
+    assert.equal(failed.success, false);
+    assert.equal(failed.matched_reviews, 1);
+
+    dispatcher.succeed = true;
+    const retried = (await polling.poll(subscription.id)).results[0];
+    assert.equal(retried.success, true);
+    assert.equal(retried.matched_reviews, 1);
+    assert.deepEqual(dispatcher.delivered, [['appstore_10002'], ['appstore_10002']]);
+
+    assert.equal((await polling.poll(subscription.id)).results[0].new_reviews, 0);
+  });
+});